@@ -12,34 +12,54 @@ import Stage from '../Section/Stage.tsx';
 import ControlPanel from '../Package/ControlPanel.tsx';
 import CodePanel from '../Package/CodePanel.tsx';
 import ConsolePanel from '../Package/ConsolePanel.tsx';
+import PresetPanel from '../Package/PresetPanel.tsx';
 import UndoRedo from '../Package/UndoRedo.tsx';
 import Confetti from '../Core/Confetti.tsx';
-import { WindowId, WindowState, LogEntry } from '../../types/index.tsx';
+import ShortcutOverlay from '../Package/ShortcutOverlay.tsx';
+import { WindowId, WindowState, LogEntry, SimulationConfig, OpticsConfig, PoolConfig, PoolShape, FloorShape, BrushConfig, BrushShape, BrushPolarity, TouchCameraGesture, KeyboardShortcut, BoundaryMode, GridResolution, CausticsResolution, WaterSceneApi, SceneConfig, ConfigIssue, HistoryEntry, ScenePreset } from '../../types/index.tsx';
+import { useScenePresets } from '../../hooks/useScenePresets.tsx';
+import { parseSceneConfig, splitSceneConfig, DEFAULT_BRUSH_CONFIG } from '../../utils/sceneConfig.tsx';
+import { encodeSceneHash, decodeSceneHash } from '../../utils/sceneHash.tsx';
+import { readImageFile } from '../Package/PoolMask.tsx';
+
+interface MetaPrototypeProps {
+  /** Filled with a typed handle for driving the scene from outside the app. */
+  apiRef?: React.MutableRefObject<WaterSceneApi | null>;
+}
 
 /**
  * 🏎️ Meta Prototype App
  * Acts as the main state orchestrator for the application.
  * Adapted to control the WebGL Water simulation.
  */
-const MetaPrototype = () => {
+const MetaPrototype = ({ apiRef }: MetaPrototypeProps) => {
   const { theme } = useTheme();
   
   // -- App State --
-  const [isPaused, setIsPaused] = useState(false);
-  const [simulationConfig, setSimulationConfig] = useState({ gravity: true });
-  const [lightPosition, setLightPosition] = useState({ x: 2, y: 3, z: -2 }); // XYZ position for light direction
-  const [skyPreset, setSkyPreset] = useState('default'); // 'default', 'sunset', etc.
-  const [lightIntensity, setLightIntensity] = useState(2.0);
-  const [specularIntensity, setSpecularIntensity] = useState(2.0);
-  const [useCustomWaterColor, setUseCustomWaterColor] = useState(false);
-  const [waterColorShallow, setWaterColorShallow] = useState('#aaddff'); // Light cyan
-  const [waterColorDeep, setWaterColorDeep] = useState('#005577'); // Dark cyan
+  // A shared link's hash (if any) decides the starting look; otherwise we use the defaults.
+  const [initialScene] = useState(() => decodeSceneHash(window.location.hash));
+  const [isPaused, setIsPaused] = useState(initialScene.config.isPaused);
+  const [timeScale, setTimeScale] = useState(initialScene.config.timeScale);
+  const [simulationConfig, setSimulationConfig] = useState<SimulationConfig>(() => {
+    const { isPaused, timeScale, lightPosition, skyPreset, lightIntensity, specularIntensity, useCustomWaterColor, waterColorShallow, waterColorDeep, ...simulation } = splitSceneConfig(initialScene.config).rest as SceneConfig;
+    return simulation;
+  });
+  const [opticsConfig, setOpticsConfig] = useState<OpticsConfig>(() => splitSceneConfig(initialScene.config).optics as OpticsConfig);
+  const [poolConfig, setPoolConfig] = useState<PoolConfig>(() => splitSceneConfig(initialScene.config).pool as PoolConfig);
+  const [customPoolMask, setCustomPoolMask] = useState<string | null>(null); // Data URL of the uploaded outline; too big for the config
+  const [customFloorMap, setCustomFloorMap] = useState<string | null>(null); // Same for the uploaded floor heightmap
+  const [brushConfig, setBrushConfig] = useState<BrushConfig>(DEFAULT_BRUSH_CONFIG);
+  const [touchCameraGesture, setTouchCameraGesture] = useState<TouchCameraGesture>('two-finger');
+  const [lightPosition, setLightPosition] = useState(initialScene.config.lightPosition); // XYZ position for light direction
+  const [skyPreset, setSkyPreset] = useState(initialScene.config.skyPreset); // 'default', 'sunset', etc.
+  const [lightIntensity, setLightIntensity] = useState(initialScene.config.lightIntensity);
+  const [specularIntensity, setSpecularIntensity] = useState(initialScene.config.specularIntensity);
+  const [useCustomWaterColor, setUseCustomWaterColor] = useState(initialScene.config.useCustomWaterColor);
+  const [waterColorShallow, setWaterColorShallow] = useState(initialScene.config.waterColorShallow);
+  const [waterColorDeep, setWaterColorDeep] = useState(initialScene.config.waterColorDeep);
 
   // -- Direct API ref for real-time updates --
-  const sceneApiRef = useRef<{ 
-    setLightIntensity?: (v: number) => void; 
-    setSpecularIntensity?: (v: number) => void; 
-  } | null>(null);
+  const sceneApiRef = useRef<WaterSceneApi | null>(null);
 
   // -- Confetti State --
   const [confettiTrigger, setConfettiTrigger] = useState(0);
@@ -47,30 +67,57 @@ const MetaPrototype = () => {
   const [logs, setLogs] = useState<LogEntry[]>([]);
   
   // -- History State --
-  const [history, setHistory] = useState<any[]>([]);
-  const [future, setFuture] = useState<any[]>([]);
+  const [history, setHistory] = useState<HistoryEntry[]>([]);
+  const [future, setFuture] = useState<HistoryEntry[]>([]);
+  // Undo/redo read and write the stacks here first, so a burst of them (a held shortcut) never
+  // replays the same entry before React has re-rendered with the new stacks.
+  const stacksRef = useRef({ history, future });
+  stacksRef.current = { history, future };
+  const HISTORY_LIMIT = 100;
+  const HISTORY_MERGE_MS = 800; // Same kind of edit within this window counts as one undo step
+  // Playback controls how you watch the scene, not what it looks like, so undo never pauses or resumes it.
+  const PLAYBACK_KEYS: (keyof SceneConfig)[] = ['isPaused', 'timeScale'];
 
   // --- Window Management ---
   const WINDOW_WIDTH = 400;
   const CONTROL_PANEL_HEIGHT = 600;
   const CODE_PANEL_HEIGHT = 408;
   const CONSOLE_PANEL_HEIGHT = 200;
+  const PRESET_PANEL_HEIGHT = 420;
 
   const [windows, setWindows] = useState<Record<WindowId, WindowState>>({
     control: { id: 'control', title: 'Control', isOpen: false, zIndex: 1, x: -WINDOW_WIDTH / 2, y: -CONTROL_PANEL_HEIGHT / 2 },
     code: { id: 'code', title: 'Code I/O', isOpen: false, zIndex: 2, x: -WINDOW_WIDTH / 2, y: -CODE_PANEL_HEIGHT / 2 },
     console: { id: 'console', title: 'Console', isOpen: false, zIndex: 3, x: -WINDOW_WIDTH / 2, y: -CONSOLE_PANEL_HEIGHT / 2 },
+    presets: { id: 'presets', title: 'Presets', isOpen: false, zIndex: 4, x: -WINDOW_WIDTH / 2, y: -PRESET_PANEL_HEIGHT / 2 },
   });
 
+  // -- Presets --
+  const { presets, savePreset, renamePreset, deletePreset, exportPresets, importPresets } = useScenePresets();
+
   // -- Code Editor State --
+  const sceneConfig: SceneConfig = { isPaused, timeScale, lightPosition, skyPreset, lightIntensity, specularIntensity, useCustomWaterColor, waterColorShallow, waterColorDeep, ...simulationConfig, ...opticsConfig, ...poolConfig };
+  const sceneConfigText = JSON.stringify(sceneConfig, null, 2);
+  // Always-current copy for callbacks that outlive a render (timers, the public API, key listeners).
+  const sceneConfigRef = useRef(sceneConfig);
+  sceneConfigRef.current = sceneConfig;
   const [codeText, setCodeText] = useState('');
   const [isCodeFocused, setIsCodeFocused] = useState(false);
+  const [isCodeDirty, setIsCodeDirty] = useState(false); // User edits that haven't been cleanly applied yet
+  const [codeIssues, setCodeIssues] = useState<ConfigIssue[]>([]);
+  const [isLiveApply, setIsLiveApply] = useState(false);
+  const liveApplyTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
   
+  // Mirror the live state into the editor, but never over the top of the user's unapplied edits.
   useEffect(() => {
-    if (!isCodeFocused) {
-      setCodeText(JSON.stringify({ isPaused, lightPosition, skyPreset, lightIntensity, specularIntensity, useCustomWaterColor, waterColorShallow, waterColorDeep, ...simulationConfig }, null, 2));
+    if (!isCodeFocused && !isCodeDirty) {
+      setCodeText(sceneConfigText);
     }
-  }, [isPaused, lightPosition, skyPreset, lightIntensity, specularIntensity, useCustomWaterColor, waterColorShallow, waterColorDeep, simulationConfig, isCodeFocused]);
+  }, [sceneConfigText, isCodeFocused, isCodeDirty]);
+
+  useEffect(() => () => {
+    if (liveApplyTimer.current) clearTimeout(liveApplyTimer.current);
+  }, []);
 
 
   // -- Actions --
@@ -86,8 +133,79 @@ const MetaPrototype = () => {
   
   useEffect(() => {
       logEvent('System Ready. WebGL Water module loaded.');
+      logEvent('Press ? to see the keyboard shortcuts');
+      initialScene.warnings.forEach(warning => logEvent(`Warning: ${warning}`));
+      if (initialScene.found && initialScene.warnings.length === 0) logEvent('Scene restored from URL hash');
+  }, []);
+
+  // -- Shareable URL --
+  // Keep the hash in step with the scene. replaceState avoids filling the back button with every nudge.
+  useEffect(() => {
+    const hash = encodeSceneHash(sceneConfig);
+    if (window.location.hash !== hash) {
+      window.history.replaceState(null, '', hash);
+    }
+  }, [sceneConfigText]);
+
+  // Pasting a different link into the address bar applies it as an undoable change.
+  useEffect(() => {
+    const onHashChange = () => {
+      if (window.location.hash === encodeSceneHash(sceneConfigRef.current)) return;
+      const { config, warnings } = decodeSceneHash(window.location.hash);
+      warnings.forEach(warning => logEvent(`Warning: ${warning}`));
+      if (commitChange('URL hash', config)) logEvent('Scene updated from URL hash');
+    };
+    window.addEventListener('hashchange', onHashChange);
+    return () => window.removeEventListener('hashchange', onHashChange);
   }, []);
 
+  // -- Public API --
+  // Forwards to the live scene, but routes anything we keep in React state through setState
+  // so the panels and the Code JSON stay in sync with external callers.
+  useEffect(() => {
+    if (!apiRef) return;
+    const zero = { x: 0, y: 0, z: 0 };
+    apiRef.current = {
+      addDrop: (x, z, radius, strength) => sceneApiRef.current?.addDrop(x, z, radius, strength),
+      setSpherePosition: (position) => {
+        sceneApiRef.current?.setSpherePosition(position);
+        logEvent(`API: Sphere moved to (${position.x.toFixed(2)}, ${position.y.toFixed(2)}, ${position.z.toFixed(2)})`);
+      },
+      getSpherePosition: () => sceneApiRef.current?.getSpherePosition() ?? zero,
+      resetWater: () => {
+        sceneApiRef.current?.resetWater();
+        logEvent('API: Water reset performed');
+      },
+      getCamera: () => sceneApiRef.current?.getCamera() ?? { position: zero, target: zero },
+      setCamera: (camera) => {
+        sceneApiRef.current?.setCamera(camera);
+        logEvent('API: Camera updated');
+      },
+      setPaused: (paused) => {
+        setIsPaused(paused);
+        logEvent(`API: Simulation toggled: ${paused ? 'Off' : 'On'}`);
+      },
+      stepFrame: () => {
+        sceneApiRef.current?.stepFrame();
+        logEvent('API: Simulation stepped one frame');
+      },
+      setTimeScale: (scale) => {
+        setTimeScale(scale);
+        logEvent(`API: Time scale changed to ${scale.toFixed(2)}x`);
+      },
+      setLightIntensity: (intensity) => {
+        commitChange('Light intensity', { lightIntensity: intensity });
+        logEvent(`API: Light intensity changed to ${intensity.toFixed(1)}`);
+      },
+      setSpecularIntensity: (intensity) => {
+        commitChange('Specular intensity', { specularIntensity: intensity });
+        logEvent(`API: Specular intensity changed to ${intensity.toFixed(1)}`);
+      },
+      getStepSize: () => sceneApiRef.current?.getStepSize() ?? 0,
+    };
+    return () => { apiRef.current = null; };
+  }, [apiRef]);
+
   const bringToFront = (id: WindowId) => {
     setWindows(prev => {
       const maxZ = Math.max(...Object.values(prev).map((w: WindowState) => w.zIndex));
@@ -108,64 +226,539 @@ const MetaPrototype = () => {
     });
   };
 
+  // Pushes any subset of the scene config into state. Simulation, optics and pool fields are merged into their grouped objects.
+  const applySceneConfig = (config: Partial<SceneConfig>) => {
+    const { optics, pool, rest } = splitSceneConfig(config);
+    const {
+      isPaused: nextPaused, timeScale: nextTimeScale, lightPosition: nextLightPosition, skyPreset: nextSkyPreset,
+      lightIntensity: nextLightIntensity, specularIntensity: nextSpecularIntensity, useCustomWaterColor: nextUseCustomColor,
+      waterColorShallow: nextShallow, waterColorDeep: nextDeep, ...simulation
+    } = rest;
+    if (nextPaused !== undefined) setIsPaused(nextPaused);
+    if (nextTimeScale !== undefined) setTimeScale(nextTimeScale);
+    if (nextLightPosition !== undefined) setLightPosition(nextLightPosition);
+    if (nextSkyPreset !== undefined) setSkyPreset(nextSkyPreset);
+    if (nextLightIntensity !== undefined) setLightIntensity(nextLightIntensity);
+    if (nextSpecularIntensity !== undefined) setSpecularIntensity(nextSpecularIntensity);
+    if (nextUseCustomColor !== undefined) setUseCustomWaterColor(nextUseCustomColor);
+    if (nextShallow !== undefined) setWaterColorShallow(nextShallow);
+    if (nextDeep !== undefined) setWaterColorDeep(nextDeep);
+    if (Object.keys(simulation).length > 0) setSimulationConfig(prev => ({ ...prev, ...simulation }));
+    if (Object.keys(optics).length > 0) setOpticsConfig(prev => ({ ...prev, ...optics }));
+    if (Object.keys(pool).length > 0) setPoolConfig(prev => ({ ...prev, ...pool }));
+  };
+
+  /**
+   * Applies a user change and records an undo step for it.
+   * Returns false (and records nothing) if the patch wouldn't change anything.
+   * A patch that only changes playback (pause, time scale) is applied without an undo step.
+   */
+  const commitChange = (label: string, patch: Partial<SceneConfig>) => {
+    const before = sceneConfigRef.current;
+    const changedKeys = (Object.keys(patch) as (keyof SceneConfig)[])
+      .filter(key => JSON.stringify(patch[key]) !== JSON.stringify(before[key]));
+    if (changedKeys.length === 0) return false;
+    if (changedKeys.every(key => PLAYBACK_KEYS.includes(key))) {
+      applySceneConfig(patch);
+      return true;
+    }
+
+    const now = Date.now();
+    setHistory(prev => {
+      const last = prev[prev.length - 1];
+      // Rapid edits of the same kind (slider nudges, live typing) collapse into one step.
+      if (last && last.label === label && now - last.time < HISTORY_MERGE_MS) {
+        return [...prev.slice(0, -1), { ...last, time: now }];
+      }
+      const entry: HistoryEntry = {
+        id: Math.random().toString(36).substr(2, 9),
+        label,
+        timestamp: new Date().toLocaleTimeString(),
+        time: now,
+        config: before,
+      };
+      return [...prev, entry].slice(-HISTORY_LIMIT);
+    });
+    setFuture([]);
+    applySceneConfig(patch);
+    return true;
+  };
+
+  // Moves the top entry of one stack onto the other, recording the current config in its place.
+  const moveHistoryEntry = (from: 'history' | 'future', to: 'history' | 'future', time?: number) => {
+    const stacks = stacksRef.current;
+    const entry = stacks[from][stacks[from].length - 1];
+    if (!entry) return null;
+    const moved = { ...entry, config: sceneConfigRef.current, ...(time !== undefined && { time }) };
+    stacksRef.current = { ...stacks, [from]: stacks[from].slice(0, -1), [to]: [...stacks[to], moved] };
+    setHistory(stacksRef.current.history);
+    setFuture(stacksRef.current.future);
+    // Snapshots are whole configs; mirror the one being applied until the re-render catches up.
+    // Playback stays as it is now rather than jumping back to when the snapshot was taken.
+    const current = sceneConfigRef.current;
+    const config = { ...entry.config, isPaused: current.isPaused, timeScale: current.timeScale };
+    sceneConfigRef.current = config;
+    applySceneConfig(config);
+    return entry;
+  };
+
+  const handleUndo = () => {
+    const entry = moveHistoryEntry('history', 'future');
+    if (!entry) return;
+    logEvent(`Undo performed: ${entry.label}`);
+  };
+
+  const handleRedo = () => {
+    const entry = moveHistoryEntry('future', 'history', 0);
+    if (!entry) return;
+    logEvent(`Redo performed: ${entry.label}`);
+  };
+
+  const applyCodeText = (text: string, isLive: boolean) => {
+    const { config, issues } = parseSceneConfig(text);
+    const fieldCount = Object.keys(config).length;
+    setCodeIssues(issues);
+    if (fieldCount > 0) commitChange('Code apply', config);
+    if (issues.length === 0) setIsCodeDirty(false);
+    if (isLive) return; // Don't flood the console on every keystroke
+    if (issues.length === 0) {
+      logEvent(`Code applied: ${fieldCount} field${fieldCount === 1 ? '' : 's'} updated`);
+    } else {
+      logEvent(`Code apply warning: ${issues.length} issue${issues.length === 1 ? '' : 's'}, ${fieldCount} field${fieldCount === 1 ? '' : 's'} updated`);
+    }
+  };
+
+  const handleCodeChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    const text = e.target.value;
+    setCodeText(text);
+    setIsCodeDirty(true);
+    if (isLiveApply) {
+      if (liveApplyTimer.current) clearTimeout(liveApplyTimer.current);
+      liveApplyTimer.current = setTimeout(() => applyCodeText(text, true), 400);
+    }
+  };
+
+  const handleApplyCode = () => {
+    applyCodeText(codeText, false);
+  };
+
+  const handleRevertCode = () => {
+    if (liveApplyTimer.current) clearTimeout(liveApplyTimer.current);
+    setCodeIssues([]);
+    setIsCodeDirty(false);
+    setCodeText(sceneConfigText);
+    logEvent('Code edits reverted to live state');
+  };
+
+  const handleToggleLiveApply = () => {
+    const newValue = !isLiveApply;
+    setIsLiveApply(newValue);
+    logEvent(`Live apply toggled: ${newValue ? 'On' : 'Off'}`);
+  };
+
+  const handleSavePreset = (name: string) => {
+    const preset = savePreset(name, sceneConfigRef.current);
+    logEvent(`Preset saved: ${preset.name}`);
+  };
+
+  const handleLoadPreset = (preset: ScenePreset) => {
+    commitChange(`Load preset "${preset.name}"`, preset.config);
+    logEvent(`Preset loaded: ${preset.name}`);
+  };
+
+  const handleRenamePreset = (id: string, name: string) => {
+    const preset = presets.find(p => p.id === id);
+    if (!preset || !name.trim() || preset.name === name.trim()) return;
+    renamePreset(id, name);
+    logEvent(`Preset renamed: ${preset.name} → ${name.trim()}`);
+  };
+
+  const handleDeletePreset = (preset: ScenePreset) => {
+    deletePreset(preset.id);
+    logEvent(`Preset deleted: ${preset.name}`);
+  };
+
+  const handleExportPresets = (ids?: string[]) => {
+    exportPresets(ids);
+    logEvent(`Exported ${ids ? ids.length : presets.length} preset(s) to JSON`);
+  };
+
+  const handleImportPresets = async (file: File) => {
+    const { imported, warnings } = await importPresets(file);
+    warnings.forEach(warning => logEvent(`Preset import warning: ${warning}`));
+    logEvent(imported > 0 ? `Imported ${imported} preset(s) from ${file.name} with success` : `Preset import failed: nothing usable in ${file.name}`);
+  };
+
   const handleCopyCode = () => {
     navigator.clipboard.writeText(codeText);
     logEvent('JSON copied to clipboard');
   };
   
   const handleTogglePause = () => {
-    setIsPaused(p => !p);
+    setIsPaused(!isPaused);
     logEvent(`Simulation toggled: ${isPaused ? 'On' : 'Off'}`);
   }
 
+  const handleStepFrame = () => {
+    sceneApiRef.current?.stepFrame();
+    logEvent('Simulation stepped one frame');
+  };
+
+  const handleResetWater = () => {
+    sceneApiRef.current?.resetWater();
+    logEvent('Water surface reset');
+  };
+
   const handleLightPositionChange = (axis: 'x' | 'y' | 'z', value: number) => {
-    setLightPosition(prev => ({ ...prev, [axis]: value }));
+    if (!commitChange('Light position', { lightPosition: { ...lightPosition, [axis]: value } })) return;
     logEvent(`Light Position ${axis.toUpperCase()} changed to ${value.toFixed(1)}`);
   };
+
+  // Shines the light from where the camera is, keeping its distance (held L in the original demo).
+  // Held down it follows the camera, and the whole sweep is one undo step.
+  const handleLightFromCamera = (isRepeat = false) => {
+    const camera = sceneApiRef.current?.getCamera();
+    if (!camera) return;
+    const { position, target } = camera;
+    const view = { x: position.x - target.x, y: position.y - target.y, z: position.z - target.z };
+    const viewLength = Math.hypot(view.x, view.y, view.z);
+    if (viewLength === 0) return;
+    const scale = (Math.hypot(lightPosition.x, lightPosition.y, lightPosition.z) || 1) / viewLength;
+    // Snap to the sliders' range and step
+    const toSlider = (value: number) => Math.round(Math.min(10, Math.max(-10, value * scale)) * 10) / 10;
+    const next = { x: toSlider(view.x), y: toSlider(view.y), z: toSlider(view.z) };
+    if (!commitChange('Light position', { lightPosition: next }) || isRepeat) return;
+    logEvent(`Light set from camera view: (${next.x.toFixed(1)}, ${next.y.toFixed(1)}, ${next.z.toFixed(1)})`);
+  };
   
   const handleSkyPresetChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
     const newPreset = e.target.value;
-    setSkyPreset(newPreset);
+    if (!commitChange('Sky preset', { skyPreset: newPreset })) return;
     logEvent(`Sky preset changed to: ${newPreset}`);
   };
 
   // --- Real-time updates (no re-render) ---
   const handleLightIntensityUpdate = (value: number) => {
-    sceneApiRef.current?.setLightIntensity?.(value);
+    sceneApiRef.current?.setLightIntensity(value);
   };
   const handleSpecularIntensityUpdate = (value: number) => {
-    sceneApiRef.current?.setSpecularIntensity?.(value);
+    sceneApiRef.current?.setSpecularIntensity(value);
+  };
+  const handleTimeScaleUpdate = (value: number) => {
+    sceneApiRef.current?.setTimeScale(value);
   };
 
   // --- State updates on commit (re-renders for UI sync) ---
   const handleLightIntensityCommit = (value: number) => {
-    setLightIntensity(value);
+    if (!commitChange('Light intensity', { lightIntensity: value })) return;
     logEvent(`Light intensity committed: ${value.toFixed(1)}`);
   };
   const handleSpecularIntensityCommit = (value: number) => {
-    setSpecularIntensity(value);
+    if (!commitChange('Specular intensity', { specularIntensity: value })) return;
     logEvent(`Specular intensity committed: ${value.toFixed(1)}`);
   };
 
+  const handleTimeScaleCommit = (value: number) => {
+    if (value === timeScale) return;
+    setTimeScale(value);
+    logEvent(`Time scale committed: ${value.toFixed(2)}x`);
+  };
+
+  const handleToggleGravity = () => {
+    const newValue = !simulationConfig.gravity;
+    commitChange('Sphere gravity', { gravity: newValue });
+    logEvent(`Sphere gravity toggled: ${newValue ? 'On' : 'Off'}`);
+  };
+
+  const handleSphereDensityCommit = (value: number) => {
+    if (!commitChange('Sphere density', { sphereDensity: value })) return;
+    logEvent(`Sphere density committed: ${value.toFixed(2)}`);
+  };
+
+  const handleSphereDragCommit = (value: number) => {
+    if (!commitChange('Sphere drag', { sphereDrag: value })) return;
+    logEvent(`Sphere drag committed: ${value.toFixed(1)}`);
+  };
+
+  const handleWaveSpeedCommit = (value: number) => {
+    if (!commitChange('Wave speed', { waveSpeed: value })) return;
+    logEvent(`Wave speed committed: ${value.toFixed(2)}`);
+  };
+
+  const handleDampingCommit = (value: number) => {
+    if (!commitChange('Damping', { damping: value })) return;
+    logEvent(`Damping committed: ${value.toFixed(3)}`);
+  };
+
+  const handleWindSpeedCommit = (value: number) => {
+    if (!commitChange('Wind speed', { windSpeed: value })) return;
+    logEvent(value === 0 ? 'Wind calmed' : `Wind speed committed: ${value.toFixed(1)}`);
+  };
+
+  const handleWindDirectionCommit = (value: number) => {
+    if (!commitChange('Wind direction', { windDirection: value })) return;
+    logEvent(`Wind direction committed: ${Math.round(value)}°`);
+  };
+
+  const handleWindGustinessCommit = (value: number) => {
+    if (!commitChange('Wind gustiness', { windGustiness: value })) return;
+    logEvent(`Wind gustiness committed: ${value.toFixed(2)}`);
+  };
+
+  const handleToggleRain = () => {
+    const newValue = !simulationConfig.rain;
+    commitChange('Rain', { rain: newValue });
+    logEvent(`Rain toggled: ${newValue ? 'On' : 'Off'}`);
+  };
+
+  const handleRainRateCommit = (value: number) => {
+    if (!commitChange('Rain rate', { rainRate: value })) return;
+    logEvent(`Rain rate committed: ${Math.round(value)} drops/s`);
+  };
+
+  const handleRainDropRadiusCommit = (value: number) => {
+    if (!commitChange('Raindrop radius', { rainDropRadius: value })) return;
+    logEvent(`Raindrop radius committed: ${value.toFixed(3)}`);
+  };
+
+  const handleRainDropStrengthCommit = (value: number) => {
+    if (!commitChange('Raindrop strength', { rainDropStrength: value })) return;
+    logEvent(`Raindrop strength committed: ${value.toFixed(3)}`);
+  };
+
+  const handleRainSizeVariationCommit = (value: number) => {
+    if (!commitChange('Raindrop size variation', { rainSizeVariation: value })) return;
+    logEvent(`Raindrop size variation committed: ${value.toFixed(2)}`);
+  };
+
+  const handleToggleRainSplashes = () => {
+    const newValue = !simulationConfig.rainSplashes;
+    commitChange('Rain splashes', { rainSplashes: newValue });
+    logEvent(`Rain splashes toggled: ${newValue ? 'On' : 'Off'}`);
+  };
+
+  const handleBoundaryModeChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const newMode = e.target.value as BoundaryMode;
+    if (!commitChange('Boundary mode', { boundaryMode: newMode })) return;
+    logEvent(`Boundary mode changed to: ${newMode}`);
+  };
+
+  const handleGridResolutionChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const newResolution = Number(e.target.value) as GridResolution;
+    if (!commitChange('Grid resolution', { gridResolution: newResolution })) return;
+    logEvent(`Grid resolution changed to: ${newResolution}x${newResolution}`);
+  };
+
+  const handleIorCommit = (value: number) => {
+    if (!commitChange('Index of refraction', { ior: value })) return;
+    logEvent(`Index of refraction committed: ${value.toFixed(3)}`);
+  };
+
+  const handleFresnelStrengthCommit = (value: number) => {
+    if (!commitChange('Fresnel strength', { fresnelStrength: value })) return;
+    logEvent(`Fresnel strength committed: ${value.toFixed(2)}`);
+  };
+
+  const handleCausticsResolutionChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const newResolution = Number(e.target.value) as CausticsResolution;
+    if (!commitChange('Caustics resolution', { causticsResolution: newResolution })) return;
+    logEvent(`Caustics resolution changed to: ${newResolution}x${newResolution}`);
+  };
+
+  const handleCausticsBlurCommit = (value: number) => {
+    if (!commitChange('Caustics blur', { causticsBlur: value })) return;
+    logEvent(`Caustics blur committed: ${value === 0 ? 'Off' : value.toFixed(2)}`);
+  };
+
+  const handleCausticsIntensityCommit = (value: number) => {
+    if (!commitChange('Caustics intensity', { causticsIntensity: value })) return;
+    logEvent(`Caustics intensity committed: ${value.toFixed(2)}`);
+  };
+
+  const handleToggleCausticsDispersion = () => {
+    const newValue = !opticsConfig.causticsDispersion;
+    commitChange('Chromatic dispersion', { causticsDispersion: newValue });
+    logEvent(`Chromatic dispersion toggled: ${newValue ? 'On' : 'Off'}`);
+  };
+
+  const handleDispersionAmountCommit = (value: number) => {
+    if (!commitChange('Dispersion amount', { dispersionAmount: value })) return;
+    logEvent(`Dispersion amount committed: ${value.toFixed(3)}`);
+  };
+
+  const handlePoolShapeChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const newShape = e.target.value as PoolShape;
+    if (!commitChange('Pool shape', { poolShape: newShape })) return;
+    logEvent(newShape === 'custom' && !customPoolMask
+      ? 'Pool shape changed to: custom (no mask uploaded yet, showing a rectangle)'
+      : `Pool shape changed to: ${newShape}`);
+  };
+
+  const handleUploadPoolMask = async (file: File) => {
+    // Make sure the browser can decode it before it replaces the current outline
+    const loaded = await readImageFile(file);
+    if (!loaded) {
+      logEvent(`Pool mask upload failed: ${file.name} is not a readable image`);
+      return;
+    }
+    setCustomPoolMask(loaded.dataUrl);
+    commitChange('Pool shape', { poolShape: 'custom' });
+    logEvent(`Pool mask loaded from ${file.name} (${loaded.image.naturalWidth}x${loaded.image.naturalHeight})`);
+  };
+
+  const handlePoolWidthCommit = (value: number) => {
+    if (!commitChange('Pool width', { poolWidth: value })) return;
+    logEvent(`Pool width committed: ${value.toFixed(2)}`);
+  };
+
+  const handlePoolLengthCommit = (value: number) => {
+    if (!commitChange('Pool length', { poolLength: value })) return;
+    logEvent(`Pool length committed: ${value.toFixed(2)}`);
+  };
+
+  const handlePoolDepthCommit = (value: number) => {
+    if (!commitChange('Pool depth', { poolDepth: value })) return;
+    logEvent(`Pool depth committed: ${value.toFixed(2)}`);
+  };
+
+  const handleFillLevelCommit = (value: number) => {
+    if (!commitChange('Fill level', { fillLevel: value })) return;
+    logEvent(`Fill level committed: ${Math.round(value * 100)}%`);
+  };
+
+  const handleFloorShapeChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const newShape = e.target.value as FloorShape;
+    if (!commitChange('Floor shape', { floorShape: newShape })) return;
+    logEvent(newShape === 'custom' && !customFloorMap
+      ? 'Floor shape changed to: custom (no heightmap uploaded yet, showing a flat floor)'
+      : `Floor shape changed to: ${newShape}`);
+  };
+
+  const handleUploadFloorMap = async (file: File) => {
+    const loaded = await readImageFile(file);
+    if (!loaded) {
+      logEvent(`Floor heightmap upload failed: ${file.name} is not a readable image`);
+      return;
+    }
+    setCustomFloorMap(loaded.dataUrl);
+    commitChange('Floor shape', { floorShape: 'custom' });
+    logEvent(`Floor heightmap loaded from ${file.name} (${loaded.image.naturalWidth}x${loaded.image.naturalHeight})`);
+  };
+
+  const handleFloorReliefCommit = (value: number) => {
+    if (!commitChange('Floor relief', { floorRelief: value })) return;
+    logEvent(`Floor relief committed: ${Math.round(value * 100)}%`);
+  };
+
+  // Brush settings skip commitChange: they aren't part of the scene, so there's nothing to undo
+  const handleBrushShapeChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const newShape = e.target.value as BrushShape;
+    setBrushConfig(prev => ({ ...prev, brushShape: newShape }));
+    logEvent(`Brush shape changed to: ${newShape}`);
+  };
+
+  const handleBrushRadiusCommit = (value: number) => {
+    setBrushConfig(prev => ({ ...prev, brushRadius: value }));
+    logEvent(`Brush radius committed: ${value.toFixed(3)}`);
+  };
+
+  const handleBrushStrengthCommit = (value: number) => {
+    setBrushConfig(prev => ({ ...prev, brushStrength: value }));
+    logEvent(`Brush strength committed: ${value.toFixed(3)}`);
+  };
+
+  const handleBrushPolarityChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const newPolarity = e.target.value as BrushPolarity;
+    setBrushConfig(prev => ({ ...prev, brushPolarity: newPolarity }));
+    logEvent(`Brush polarity changed to: ${newPolarity === 'pull' ? 'pull up' : 'push down'}`);
+  };
+
+  const handleBrushFalloffCommit = (value: number) => {
+    setBrushConfig(prev => ({ ...prev, brushFalloff: value }));
+    logEvent(`Brush falloff committed: ${value.toFixed(2)}`);
+  };
+
+  const handleTouchCameraGestureChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const newGesture = e.target.value as TouchCameraGesture;
+    setTouchCameraGesture(newGesture);
+    logEvent(`Touch camera gesture changed to: ${newGesture}`);
+  };
+
   const handleToggleCustomWaterColor = () => {
       const newValue = !useCustomWaterColor;
-      setUseCustomWaterColor(newValue);
+      commitChange('Custom water color', { useCustomWaterColor: newValue });
       logEvent(`Custom water color toggled: ${newValue ? 'On' : 'Off'}`);
   };
 
   const handleWaterColorShallowChange = (e: any) => {
       const newColor = e.target.value;
-      setWaterColorShallow(newColor);
+      if (!commitChange('Shallow color', { waterColorShallow: newColor })) return;
       logEvent(`Shallow water color changed to ${newColor}`);
   };
 
   const handleWaterColorDeepChange = (e: any) => {
       const newColor = e.target.value;
-      setWaterColorDeep(newColor);
+      if (!commitChange('Deep color', { waterColorDeep: newColor })) return;
       logEvent(`Deep water color changed to ${newColor}`);
   };
 
 
+  // --- Keyboard Shortcuts ---
+  const NON_TEXT_INPUT_TYPES = ['range', 'checkbox', 'radio', 'button', 'submit', 'reset', 'color', 'file', 'image'];
+  const isTextEntry = (target: EventTarget | null) => {
+    if (!(target instanceof HTMLElement)) return false;
+    if (target.isContentEditable || target.tagName === 'TEXTAREA') return true;
+    return target instanceof HTMLInputElement && !NON_TEXT_INPUT_TYPES.includes(target.type);
+  };
+  // Native controls that act on the key themselves: a select's type-ahead and arrow keys, and space on anything clickable.
+  const SPACE_ACTIVATED_INPUT_TYPES = ['checkbox', 'radio', 'button', 'submit', 'reset', 'color', 'file', 'image'];
+  const isNativeKeyTarget = (target: EventTarget | null, e: KeyboardEvent) => {
+    if (!(target instanceof HTMLElement)) return false;
+    if (target.tagName === 'SELECT') return !(e.ctrlKey || e.metaKey);
+    if (e.key !== ' ') return false;
+    if (target.tagName === 'BUTTON') return true;
+    return target instanceof HTMLInputElement && SPACE_ACTIVATED_INPUT_TYPES.includes(target.type);
+  };
+  // The bindings from the original demo (space, G, L) plus window toggles, reset and undo/redo.
+  const [isShortcutHelpOpen, setIsShortcutHelpOpen] = useState(false);
+  const shortcuts: KeyboardShortcut[] = [
+    { key: ' ', label: 'Space', description: 'Pause or resume the simulation', run: () => handleTogglePause() },
+    { key: 'g', label: 'G', description: 'Toggle sphere gravity', run: () => handleToggleGravity() },
+    { key: 'l', label: 'L', description: 'Light the scene from the camera (hold and orbit to sweep)', repeat: true, run: handleLightFromCamera },
+    { key: 'r', label: 'R', description: 'Reset the water surface', run: () => handleResetWater() },
+    { key: '1', label: '1', description: 'Show or hide the Control window', run: () => toggleWindow('control') },
+    { key: '2', label: '2', description: 'Show or hide the Code window', run: () => toggleWindow('code') },
+    { key: '3', label: '3', description: 'Show or hide the Console window', run: () => toggleWindow('console') },
+    { key: '4', label: '4', description: 'Show or hide the Presets window', run: () => toggleWindow('presets') },
+    { key: 'z', label: 'Ctrl/⌘ + Z', description: 'Undo', withModifier: true, shift: false, repeat: true, run: () => handleUndo() },
+    { key: 'z', label: 'Shift + Ctrl/⌘ + Z', description: 'Redo', withModifier: true, shift: true, repeat: true, run: () => handleRedo() },
+    { key: '?', label: '?', description: 'Show or hide this list', run: () => setIsShortcutHelpOpen(open => !open) },
+    { key: 'escape', label: 'Esc', description: 'Close this list', run: () => setIsShortcutHelpOpen(false) },
+  ];
+  // The listener is added once, so it reads the latest bindings (and the handlers' latest state) through a ref.
+  const shortcutsRef = useRef(shortcuts);
+  shortcutsRef.current = shortcuts;
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      // Leave text entry alone (the Code panel above all) so typing, and the field's own undo, work as normal.
+      // Sliders, checkboxes and selects keep focus after a click, so they mustn't swallow the shortcuts,
+      // but a key the focused control handles itself (space on a checkbox, letters in a select) stays with it.
+      if (isTextEntry(e.target) || isNativeKeyTarget(e.target, e)) return;
+      if (e.altKey) return;
+      const key = e.key.toLowerCase();
+      const hasModifier = e.ctrlKey || e.metaKey;
+      const shortcut = shortcutsRef.current.find(s =>
+        s.key === key && !!s.withModifier === hasModifier && (s.shift === undefined || s.shift === e.shiftKey)
+      );
+      if (!shortcut) return;
+      e.preventDefault(); // No page scroll on space, no browser action on the modified keys
+      if (e.repeat && !shortcut.repeat) return;
+      shortcut.run(e.repeat);
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
   return (
     <div style={{
       width: '100vw',
@@ -185,6 +778,15 @@ const MetaPrototype = () => {
         useCustomWaterColor={useCustomWaterColor}
         waterColorShallow={waterColorShallow}
         waterColorDeep={waterColorDeep}
+        isPaused={isPaused}
+        timeScale={timeScale}
+        simulationConfig={simulationConfig}
+        opticsConfig={opticsConfig}
+        poolConfig={poolConfig}
+        brushConfig={brushConfig}
+        touchCameraGesture={touchCameraGesture}
+        customPoolMask={customPoolMask}
+        customFloorMap={customFloorMap}
         sceneApiRef={sceneApiRef}
       />
 
@@ -196,11 +798,52 @@ const MetaPrototype = () => {
             {...windows.control}
             onClose={() => toggleWindow('control')}
             onFocus={() => bringToFront('control')}
-            footer={<UndoRedo onUndo={()=>{}} onRedo={()=>{}} canUndo={false} canRedo={false} />}
+            footer={<UndoRedo onUndo={handleUndo} onRedo={handleRedo} canUndo={history.length > 0} canRedo={future.length > 0} />}
           >
             <ControlPanel
               isPaused={isPaused}
               onTogglePause={handleTogglePause}
+              onStepFrame={handleStepFrame}
+              timeScale={timeScale}
+              onTimeScaleUpdate={handleTimeScaleUpdate}
+              onTimeScaleCommit={handleTimeScaleCommit}
+              simulationConfig={simulationConfig}
+              onToggleGravity={handleToggleGravity}
+              onSphereDensityCommit={handleSphereDensityCommit}
+              onSphereDragCommit={handleSphereDragCommit}
+              onWaveSpeedCommit={handleWaveSpeedCommit}
+              onDampingCommit={handleDampingCommit}
+              onWindSpeedCommit={handleWindSpeedCommit}
+              onWindDirectionCommit={handleWindDirectionCommit}
+              onWindGustinessCommit={handleWindGustinessCommit}
+              onToggleRain={handleToggleRain}
+              onRainRateCommit={handleRainRateCommit}
+              onRainDropRadiusCommit={handleRainDropRadiusCommit}
+              onRainDropStrengthCommit={handleRainDropStrengthCommit}
+              onRainSizeVariationCommit={handleRainSizeVariationCommit}
+              onToggleRainSplashes={handleToggleRainSplashes}
+              onBoundaryModeChange={handleBoundaryModeChange}
+              onGridResolutionChange={handleGridResolutionChange}
+              poolConfig={poolConfig}
+              hasCustomPoolMask={customPoolMask !== null}
+              onPoolShapeChange={handlePoolShapeChange}
+              onUploadPoolMask={handleUploadPoolMask}
+              onPoolWidthCommit={handlePoolWidthCommit}
+              onPoolLengthCommit={handlePoolLengthCommit}
+              onPoolDepthCommit={handlePoolDepthCommit}
+              onFillLevelCommit={handleFillLevelCommit}
+              hasCustomFloorMap={customFloorMap !== null}
+              onFloorShapeChange={handleFloorShapeChange}
+              onUploadFloorMap={handleUploadFloorMap}
+              onFloorReliefCommit={handleFloorReliefCommit}
+              brushConfig={brushConfig}
+              onBrushShapeChange={handleBrushShapeChange}
+              onBrushRadiusCommit={handleBrushRadiusCommit}
+              onBrushStrengthCommit={handleBrushStrengthCommit}
+              onBrushPolarityChange={handleBrushPolarityChange}
+              onBrushFalloffCommit={handleBrushFalloffCommit}
+              touchCameraGesture={touchCameraGesture}
+              onTouchCameraGestureChange={handleTouchCameraGestureChange}
               lightPosition={lightPosition}
               onLightPositionChange={handleLightPositionChange}
               skyPreset={skyPreset}
@@ -211,6 +854,14 @@ const MetaPrototype = () => {
               specularIntensity={specularIntensity}
               onSpecularIntensityUpdate={handleSpecularIntensityUpdate}
               onSpecularIntensityCommit={handleSpecularIntensityCommit}
+              opticsConfig={opticsConfig}
+              onIorCommit={handleIorCommit}
+              onFresnelStrengthCommit={handleFresnelStrengthCommit}
+              onCausticsResolutionChange={handleCausticsResolutionChange}
+              onCausticsBlurCommit={handleCausticsBlurCommit}
+              onCausticsIntensityCommit={handleCausticsIntensityCommit}
+              onToggleCausticsDispersion={handleToggleCausticsDispersion}
+              onDispersionAmountCommit={handleDispersionAmountCommit}
               useCustomWaterColor={useCustomWaterColor}
               onToggleCustomWaterColor={handleToggleCustomWaterColor}
               waterColorShallow={waterColorShallow}
@@ -230,7 +881,14 @@ const MetaPrototype = () => {
           >
             <CodePanel
               codeText={codeText}
-              onCodeChange={(e) => setCodeText(e.target.value)}
+              liveStateText={sceneConfigText}
+              issues={codeIssues}
+              isDirty={isCodeDirty}
+              isLiveApply={isLiveApply}
+              onCodeChange={handleCodeChange}
+              onApplyCode={handleApplyCode}
+              onRevertCode={handleRevertCode}
+              onToggleLiveApply={handleToggleLiveApply}
               onCopyCode={handleCopyCode}
               onFocus={() => setIsCodeFocused(true)}
               onBlur={() => setIsCodeFocused(false)}
@@ -245,12 +903,37 @@ const MetaPrototype = () => {
             onClose={() => toggleWindow('console')}
             onFocus={() => bringToFront('console')}
           >
-            <ConsolePanel logs={logs} />
+            <ConsolePanel logs={logs} history={history} future={future} />
+          </FloatingWindow>
+        )}
+
+        {windows.presets.isOpen && (
+          <FloatingWindow
+            key="presets"
+            {...windows.presets}
+            onClose={() => toggleWindow('presets')}
+            onFocus={() => bringToFront('presets')}
+          >
+            <PresetPanel
+              presets={presets}
+              onSavePreset={handleSavePreset}
+              onLoadPreset={handleLoadPreset}
+              onRenamePreset={handleRenamePreset}
+              onDeletePreset={handleDeletePreset}
+              onExportPresets={handleExportPresets}
+              onImportPresets={handleImportPresets}
+            />
           </FloatingWindow>
         )}
       </AnimatePresence>
 
       <Dock windows={windows} toggleWindow={toggleWindow} />
+
+      <AnimatePresence>
+        {isShortcutHelpOpen && (
+          <ShortcutOverlay key="shortcuts" shortcuts={shortcuts} onClose={() => setIsShortcutHelpOpen(false)} />
+        )}
+      </AnimatePresence>
     </div>
   );
 };
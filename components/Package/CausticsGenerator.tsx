@@ -4,19 +4,58 @@
  */
 import * as THREE from 'three';
 
+/**
+ * How the caustics map is laid out: a point P under water is stored at the spot where light refracted
+ * through a flat surface would have entered to reach it, `P.xz - P.y * refractedLight.xz / refractedLight.y`,
+ * divided by the pool's half-size, scaled by this factor and mapped from -1..1 to 0..1. The scale leaves room for wall hits, which
+ * land outside the pool's own footprint. Shaders that read the map must use the same mapping.
+ */
+export const CAUSTICS_MAP_SCALE = 0.75;
+
 const causticsVertexShader = `
   uniform sampler2D u_waterTexture;
   uniform vec3 u_lightDir;
-  uniform float u_poolHeight;
+  uniform vec2 u_poolSize; // Width (X) and length (Z)
+  uniform float u_poolHeight; // Water depth: the floor sits at -u_poolHeight where the floor map is black
+  uniform sampler2D u_floorMap; // Floor relief: red 1 raises the floor by u_floorRelief of the depth
+  uniform float u_floorRelief;
+  uniform float u_ior;
+  uniform float u_mapScale;
 
   varying vec3 v_oldPos;
   varying vec3 v_newPos;
+  varying vec3 v_refractedLight;
+
+  vec2 intersectCube(vec3 origin, vec3 ray, vec3 cubeMin, vec3 cubeMax) {
+    vec3 tMin = (cubeMin - origin) / ray;
+    vec3 tMax = (cubeMax - origin) / ray;
+    vec3 t1 = min(tMin, tMax);
+    vec3 t2 = max(tMin, tMax);
+    float tNear = max(max(t1.x, t1.y), t1.z);
+    float tFar = min(min(t2.x, t2.y), t2.z);
+    return vec2(tNear, tFar);
+  }
+
+  // Depth of the floor where flat-surface light entering at this surface point lands. The landing spot
+  // itself depends on the depth, so it's found with a couple of fixed-point steps.
+  float floorDepthBelow(vec3 origin, vec3 refractedLight) {
+    float depth = u_poolHeight;
+    for (int i = 0; i < 2; i++) {
+      vec2 landing = origin.xz - refractedLight.xz * depth / refractedLight.y;
+      vec2 uv = vec2(landing.x / u_poolSize.x + 0.5, 0.5 - landing.y / u_poolSize.y);
+      depth = u_poolHeight * (1.0 - u_floorRelief * texture2D(u_floorMap, uv).r);
+    }
+    return depth;
+  }
 
-  // Projects a ray from a point on the water surface to the pool floor
-  vec3 project(vec3 origin, vec3 ray) {
-    // Simplified intersection with a plane at y = -poolHeight
-    float t = (-origin.y - u_poolHeight) / ray.y;
-    return origin + ray * t;
+  // Follows a ray from the water surface to wherever it leaves the pool (floor or wall), then slides that
+  // point along the flat-surface light direction onto the plane at \`depth\` so every hit shares one plane.
+  vec3 project(vec3 origin, vec3 ray, vec3 refractedLight, float depth) {
+    vec2 halfSize = 0.5 * u_poolSize;
+    vec2 tcube = intersectCube(origin, ray, vec3(-halfSize.x, -depth, -halfSize.y), vec3(halfSize.x, 2.0, halfSize.y));
+    origin += ray * tcube.y;
+    float tplane = (-origin.y - depth) / refractedLight.y;
+    return origin + refractedLight * tplane;
   }
 
   void main() {
@@ -27,32 +66,51 @@ const causticsVertexShader = `
     vec3 normal = normalize(vec3(info.b, sqrt(1.0 - dot(info.ba, info.ba)), info.a));
     
     // Refract the light vector through the water surface
-    vec3 refractedLight = refract(-u_lightDir, vec3(0.0, 1.0, 0.0), 1.0 / 1.333);
-    vec3 refractedRay = refract(-u_lightDir, normal, 1.0 / 1.333);
+    vec3 refractedLight = refract(-u_lightDir, vec3(0.0, 1.0, 0.0), 1.0 / u_ior);
+    vec3 refractedRay = refract(-u_lightDir, normal, 1.0 / u_ior);
+    v_refractedLight = refractedLight;
     
-    // Calculate the position on the floor if the water were flat vs. wavy
+    // Calculate where the light lands if the water were flat vs. wavy
     vec3 origin = vec3(position.x, 0.0, -position.y); // Plane is rotated
-    v_oldPos = project(origin, refractedLight);
+    // Over a raised floor the light has less distance to focus in, so project to the local depth
+    float depth = floorDepthBelow(origin, refractedLight);
+    v_oldPos = project(origin, refractedLight, refractedLight, depth);
     origin.y += info.r; // Displace by wave height
-    v_newPos = project(origin, refractedRay);
+    v_newPos = project(origin, refractedRay, refractedLight, depth);
     
-    // Set gl_Position to project the distorted vertices onto the caustics map
-    gl_Position = vec4(v_newPos.xz, 0.0, 1.0);
+    // Place the distorted vertices in the caustics map (see CAUSTICS_MAP_SCALE)
+    vec2 entry = v_newPos.xz + refractedLight.xz * depth / refractedLight.y;
+    gl_Position = vec4(u_mapScale * entry / (0.5 * u_poolSize), 0.0, 1.0);
   }
 `;
 
 const causticsFragmentShader = `
+  const float CAUSTICS_GAIN = 0.2; // Brings the area ratio down to a usable light level
+  uniform vec3 u_sphereCenter;
+  uniform float u_sphereRadius;
+  uniform vec3 u_channels; // Which color channels this pass lights (all of them unless dispersing)
+
   varying vec3 v_oldPos;
   varying vec3 v_newPos;
+  varying vec3 v_refractedLight;
 
   void main() {
     // The change in area of the projected triangles gives the caustic intensity.
     // Where the area shrinks, light is focused (bright); where it expands, light is dispersed (dark).
     float oldArea = length(dFdx(v_oldPos)) * length(dFdy(v_oldPos));
     float newArea = length(dFdx(v_newPos)) * length(dFdy(v_newPos));
+
+    // Soft blob shadow from the sphere, as in the original demo. It only counts when the sphere
+    // sits between this floor point and the light, and it blurs the further the sphere is from the floor.
+    vec3 dir = (u_sphereCenter - v_newPos) / u_sphereRadius;
+    vec3 area = cross(dir, v_refractedLight);
+    float dist = dot(dir, -v_refractedLight);
+    float shadow = 1.0 + (dot(area, area) - 1.0) / (0.05 + dist * 0.025);
+    shadow = clamp(1.0 / (1.0 + exp(-shadow)), 0.0, 1.0);
+    shadow = mix(1.0, shadow, clamp(dist * 2.0, 0.0, 1.0));
     
-    // We store the caustic intensity in the red channel.
-    gl_FragColor = vec4(oldArea / newArea * 0.2, 1.0, 0.0, 1.0);
+    // Caustic light goes in RGB and the sphere's shadow (1 = fully lit) in alpha.
+    gl_FragColor = vec4(u_channels * oldArea / newArea * CAUSTICS_GAIN, shadow);
   }
 `;
 
@@ -73,18 +131,27 @@ const blurFragmentShader = `
 
     void main() {
         vec4 original = texture2D(u_texture, v_uv);
-        float blurredCaustic = original.r * weights[0];
+        vec3 blurredCaustic = original.rgb * weights[0];
 
         for (int i = 1; i < 5; i++) {
             vec2 offset = float(i) * u_delta;
-            blurredCaustic += texture2D(u_texture, v_uv + offset).r * weights[i];
-            blurredCaustic += texture2D(u_texture, v_uv - offset).r * weights[i];
+            blurredCaustic += texture2D(u_texture, v_uv + offset).rgb * weights[i];
+            blurredCaustic += texture2D(u_texture, v_uv - offset).rgb * weights[i];
         }
         
-        gl_FragColor = vec4(blurredCaustic, original.gba);
+        // The shadow in alpha is already soft, so it passes through untouched
+        gl_FragColor = vec4(blurredCaustic, original.a);
     }
 `;
 
+// Per-channel passes for chromatic dispersion. Red light bends least and blue the most.
+const DISPERSION_PASSES = [
+    { channels: new THREE.Vector3(1, 0, 0), iorOffset: -1 },
+    { channels: new THREE.Vector3(0, 1, 0), iorOffset: 0 },
+    { channels: new THREE.Vector3(0, 0, 1), iorOffset: 1 },
+];
+const WHITE_LIGHT_PASS = [{ channels: new THREE.Vector3(1, 1, 1), iorOffset: 0 }];
+
 export class CausticsGenerator {
     private scene: THREE.Scene;
     private camera: THREE.OrthographicCamera;
@@ -97,23 +164,45 @@ export class CausticsGenerator {
     private blurMaterial: THREE.ShaderMaterial;
     private blurScene: THREE.Scene;
     private blurPlane: THREE.Mesh;
+    private clearColor = new THREE.Color();
+
+    // Quality settings
+    private ior = 1.333;
+    private blurRadius = 1; // In texels between taps; 0 skips the blur pass
+    private dispersion = 0; // IOR spread between red and green (and green and blue); 0 renders white light in one pass
 
-    constructor(waterGeometry: THREE.BufferGeometry) {
+    constructor(waterGeometry: THREE.BufferGeometry, size = 512) {
         this.camera = new THREE.OrthographicCamera(-1, 1, 1, -1, 0, 1);
         this.scene = new THREE.Scene();
-        const CAUSTICS_SIZE = 512;
-        this.target = new THREE.WebGLRenderTarget(CAUSTICS_SIZE, CAUSTICS_SIZE, { type: THREE.HalfFloatType });
-        this.blurTarget = new THREE.WebGLRenderTarget(CAUSTICS_SIZE, CAUSTICS_SIZE, { type: THREE.HalfFloatType });
+        this.target = new THREE.WebGLRenderTarget(size, size, { type: THREE.HalfFloatType });
+        this.blurTarget = new THREE.WebGLRenderTarget(size, size, { type: THREE.HalfFloatType });
 
         this.material = new THREE.ShaderMaterial({
             uniforms: {
                 u_waterTexture: { value: null },
                 u_lightDir: { value: new THREE.Vector3(0, 1, 0) },
+                u_poolSize: { value: new THREE.Vector2(2, 2) },
                 u_poolHeight: { value: 1.0 },
+                u_floorMap: { value: null },
+                u_floorRelief: { value: 0.0 },
+                u_ior: { value: 1.333 },
+                u_mapScale: { value: CAUSTICS_MAP_SCALE },
+                u_sphereCenter: { value: new THREE.Vector3() },
+                u_sphereRadius: { value: 1.0 },
+                u_channels: { value: new THREE.Vector3(1, 1, 1) },
             },
             vertexShader: causticsVertexShader,
             fragmentShader: causticsFragmentShader,
-            extensions: { derivatives: true }
+            extensions: { derivatives: true },
+            // Light adds up where refracted triangles overlap; the shadow in alpha just takes the latest pass.
+            blending: THREE.CustomBlending,
+            blendEquation: THREE.AddEquation,
+            blendSrc: THREE.OneFactor,
+            blendDst: THREE.OneFactor,
+            blendSrcAlpha: THREE.OneFactor,
+            blendDstAlpha: THREE.ZeroFactor,
+            depthTest: false,
+            depthWrite: false,
         });
 
         this.mesh = new THREE.Mesh(waterGeometry, this.material);
@@ -135,30 +224,82 @@ export class CausticsGenerator {
 
     update(renderer: THREE.WebGLRenderer, waterTexture: THREE.Texture, lightDir: THREE.Vector3) {
         const oldRenderTarget = renderer.getRenderTarget();
+        const oldClearAlpha = renderer.getClearAlpha();
+        const oldAutoClear = renderer.autoClear;
+        renderer.getClearColor(this.clearColor);
 
-        // 1. Generate caustics
+        // 1. Generate caustics. Texels no refracted triangle lands on read as dark but unshadowed.
         this.material.uniforms.u_waterTexture.value = waterTexture;
         this.material.uniforms.u_lightDir.value.copy(lightDir);
+        renderer.setClearColor(0x000000, 1);
         renderer.setRenderTarget(this.target);
-        renderer.render(this.scene, this.camera);
+        renderer.clear();
+        renderer.autoClear = false;
+        const passes = this.dispersion > 0 ? DISPERSION_PASSES : WHITE_LIGHT_PASS;
+        for (const pass of passes) {
+            this.material.uniforms.u_channels.value.copy(pass.channels);
+            this.material.uniforms.u_ior.value = this.ior + pass.iorOffset * this.dispersion;
+            renderer.render(this.scene, this.camera);
+        }
+        renderer.autoClear = oldAutoClear;
+        renderer.setClearColor(this.clearColor, oldClearAlpha);
 
         // 2. Blur passes (two-pass Gaussian blur)
-        // Horizontal blur
-        this.blurMaterial.uniforms.u_texture.value = this.target.texture;
-        this.blurMaterial.uniforms.u_delta.value.set(1.0 / this.target.width, 0.0);
-        renderer.setRenderTarget(this.blurTarget);
-        renderer.render(this.blurScene, this.camera);
-
-        // Vertical blur
-        this.blurMaterial.uniforms.u_texture.value = this.blurTarget.texture;
-        this.blurMaterial.uniforms.u_delta.value.set(0.0, 1.0 / this.target.height);
-        renderer.setRenderTarget(this.target);
-        renderer.render(this.blurScene, this.camera);
+        if (this.blurRadius > 0) {
+            // Horizontal blur
+            this.blurMaterial.uniforms.u_texture.value = this.target.texture;
+            this.blurMaterial.uniforms.u_delta.value.set(this.blurRadius / this.target.width, 0.0);
+            renderer.setRenderTarget(this.blurTarget);
+            renderer.render(this.blurScene, this.camera);
+
+            // Vertical blur
+            this.blurMaterial.uniforms.u_texture.value = this.blurTarget.texture;
+            this.blurMaterial.uniforms.u_delta.value.set(0.0, this.blurRadius / this.target.height);
+            renderer.setRenderTarget(this.target);
+            renderer.render(this.blurScene, this.camera);
+        }
 
         // Restore original render target
         renderer.setRenderTarget(oldRenderTarget);
     }
 
+    setSphere(center: THREE.Vector3, radius: number) {
+        this.material.uniforms.u_sphereCenter.value.copy(center);
+        this.material.uniforms.u_sphereRadius.value = radius;
+    }
+
+    setPool(width: number, length: number, waterDepth: number) {
+        this.material.uniforms.u_poolSize.value.set(width, length);
+        this.material.uniforms.u_poolHeight.value = waterDepth;
+    }
+
+    // Raised parts of the floor catch the light sooner, before it has focused as far.
+    setFloor(floorMap: THREE.Texture, relief: number) {
+        this.material.uniforms.u_floorMap.value = floorMap;
+        this.material.uniforms.u_floorRelief.value = relief;
+    }
+
+    setIor(ior: number) {
+        this.ior = ior;
+    }
+
+    setResolution(size: number) {
+        this.target.setSize(size, size);
+        this.blurTarget.setSize(size, size);
+    }
+
+    setBlur(radius: number) {
+        this.blurRadius = radius;
+    }
+
+    setDispersion(spread: number) {
+        this.dispersion = spread;
+    }
+
+    setGeometry(waterGeometry: THREE.BufferGeometry) {
+        this.mesh.geometry = waterGeometry;
+    }
+
     getTexture() {
         return this.target.texture;
     }
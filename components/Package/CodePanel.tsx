@@ -6,17 +6,41 @@ import React from 'react';
 import { motion } from 'framer-motion';
 import { useTheme } from '../../Theme.tsx';
 import TextArea from '../Core/TextArea.tsx';
+import Button from '../Core/Button.tsx';
+import Toggle from '../Core/Toggle.tsx';
+import { ConfigIssue } from '../../types/index.tsx';
 
 interface CodePanelProps {
   codeText: string;
+  liveStateText: string;
+  issues: ConfigIssue[];
+  isDirty: boolean;
+  isLiveApply: boolean;
   onCodeChange: (e: React.ChangeEvent<HTMLTextAreaElement>) => void;
+  onApplyCode: () => void;
+  onRevertCode: () => void;
+  onToggleLiveApply: () => void;
   onCopyCode: () => void;
   onFocus: () => void;
   onBlur: () => void;
 }
 
-const CodePanel: React.FC<CodePanelProps> = ({ codeText, onCodeChange, onCopyCode, onFocus, onBlur }) => {
+const CodePanel: React.FC<CodePanelProps> = ({
+  codeText,
+  liveStateText,
+  issues,
+  isDirty,
+  isLiveApply,
+  onCodeChange,
+  onApplyCode,
+  onRevertCode,
+  onToggleLiveApply,
+  onCopyCode,
+  onFocus,
+  onBlur,
+}) => {
   const { theme } = useTheme();
+  const { tag, ...issueTextStyle } = theme.Type.Expressive.Data;
 
   return (
     <>
@@ -46,10 +70,33 @@ const CodePanel: React.FC<CodePanelProps> = ({ codeText, onCodeChange, onCopyCod
           <i className="ph-bold ph-copy" style={{ fontSize: '14px' }} />
         </motion.button>
       </div>
+
+      {/* Problems found in the edited JSON, pointing at where they are */}
+      {issues.length > 0 && (
+        <div style={{ marginTop: theme.spacing['Space.S'], display: 'flex', flexDirection: 'column', gap: '2px' }}>
+          {issues.map((issue, i) => (
+            <div key={i} style={{ ...issueTextStyle, fontSize: '11px', color: theme.Color.Error.Content[1] }}>
+              Ln {issue.line}, Col {issue.column}: {issue.message}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div
+        style={{ display: 'flex', alignItems: 'center', gap: theme.spacing['Space.S'], marginTop: theme.spacing['Space.M'] }}
+        onPointerDown={(e) => e.stopPropagation()}
+      >
+        <Button label="Apply" icon="ph-check" size="S" variant="primary" disabled={!isDirty} onClick={onApplyCode} />
+        <Button label="Revert" icon="ph-arrow-counter-clockwise" size="S" variant="ghost" disabled={!isDirty} onClick={onRevertCode} />
+      </div>
+      <div style={{ marginTop: theme.spacing['Space.M'] }}>
+        <Toggle label="Live Apply While Typing" isOn={isLiveApply} onToggle={onToggleLiveApply} />
+      </div>
+
       <div style={{ marginTop: theme.spacing['Space.L'] }}>
         <p style={{ ...theme.Type.Readable.Label.S, color: theme.Color.Base.Content[2], marginBottom: theme.spacing['Space.S'] }}>LIVE SIMULATION STATE</p>
         <pre style={{ ...theme.Type.Expressive.Data, fontSize: '11px', color: theme.Color.Base.Content[2], backgroundColor: 'transparent', padding: 0, margin: 0, whiteSpace: 'pre-wrap' }}>
-          {codeText}
+          {liveStateText}
         </pre>
       </div>
     </>
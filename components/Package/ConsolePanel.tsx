@@ -2,16 +2,18 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
  */
-import React, { useEffect, useRef } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { useTheme } from '../../Theme.tsx';
-import { LogEntry as LogEntryType } from '../../types/index.tsx';
+import { LogEntry as LogEntryType, HistoryEntry } from '../../types/index.tsx';
 import LogEntry from '../Core/LogEntry.tsx';
 
 interface ConsolePanelProps {
   logs: LogEntryType[];
+  history?: HistoryEntry[];
+  future?: HistoryEntry[];
 }
 
-const ConsolePanel: React.FC<ConsolePanelProps> = ({ logs }) => {
+const ConsolePanel: React.FC<ConsolePanelProps> = ({ logs, history = [], future = [] }) => {
   const { theme } = useTheme();
   const endRef = useRef<HTMLDivElement>(null);
 
@@ -22,6 +24,17 @@ const ConsolePanel: React.FC<ConsolePanelProps> = ({ logs }) => {
 
   // Clean the token to remove non-style props
   const { tag, ...emptyTextStyle } = theme.Type.Expressive.Data;
+  const [showHistory, setShowHistory] = useState(false);
+  const hasHistory = history.length > 0 || future.length > 0;
+
+  const historyRowStyle: React.CSSProperties = {
+    ...emptyTextStyle,
+    fontSize: '11px',
+    lineHeight: '1.6',
+    display: 'flex',
+    justifyContent: 'space-between',
+    gap: '12px',
+  };
 
   return (
     <div style={{ 
@@ -31,6 +44,35 @@ const ConsolePanel: React.FC<ConsolePanelProps> = ({ logs }) => {
         minHeight: '100px',
         width: '100%'
     }}>
+      {/* Undo history: newest first. Greyed rows are steps you can redo. */}
+      {hasHistory && (
+        <div style={{ marginBottom: theme.spacing['Space.S'], borderBottom: `1px solid ${theme.Color.Base.Surface[3]}`, paddingBottom: theme.spacing['Space.S'] }}>
+          <button
+            onClick={() => setShowHistory(v => !v)}
+            style={{ ...theme.Type.Readable.Label.S, background: 'none', border: 'none', padding: 0, cursor: 'pointer', color: theme.Color.Base.Content[2], display: 'flex', alignItems: 'center', gap: '6px' }}
+          >
+            <i className={`ph-bold ${showHistory ? 'ph-caret-down' : 'ph-caret-right'}`} />
+            HISTORY ({history.length} undo · {future.length} redo)
+          </button>
+          {showHistory && (
+            <div style={{ marginTop: theme.spacing['Space.XS'] }}>
+              {future.map(entry => (
+                <div key={`f-${entry.id}`} style={{ ...historyRowStyle, color: theme.Color.Base.Content[3], opacity: 0.5 }}>
+                  <span>↷ {entry.label}</span>
+                  <span>{entry.timestamp}</span>
+                </div>
+              ))}
+              {[...history].reverse().map(entry => (
+                <div key={`h-${entry.id}`} style={{ ...historyRowStyle, color: theme.Color.Base.Content[1] }}>
+                  <span>↶ {entry.label}</span>
+                  <span style={{ color: theme.Color.Base.Content[3] }}>{entry.timestamp}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
       {logs.length === 0 && (
           <div style={{ 
               ...emptyTextStyle, 
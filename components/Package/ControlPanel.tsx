@@ -2,17 +2,61 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
  */
-import React from 'react';
+import React, { useRef } from 'react';
 import { useMotionValue } from 'framer-motion';
 import { useTheme } from '../../Theme.tsx';
+import { useBreakpoint } from '../../hooks/useBreakpoint.tsx';
 import Toggle from '../Core/Toggle.tsx';
 import RangeSlider from '../Core/RangeSlider.tsx';
 import Select from '../Core/Select.tsx';
 import ColorPicker from '../Core/ColorPicker.tsx';
+import Button from '../Core/Button.tsx';
+import { SimulationConfig, OpticsConfig, PoolConfig, BrushConfig, TouchCameraGesture } from '../../types/index.tsx';
 
 interface ControlPanelProps {
   isPaused: boolean;
   onTogglePause: () => void;
+  onStepFrame: () => void;
+  timeScale: number;
+  onTimeScaleUpdate: (value: number) => void;
+  onTimeScaleCommit: (value: number) => void;
+  simulationConfig: SimulationConfig;
+  onToggleGravity: () => void;
+  onSphereDensityCommit: (value: number) => void;
+  onSphereDragCommit: (value: number) => void;
+  onWaveSpeedCommit: (value: number) => void;
+  onDampingCommit: (value: number) => void;
+  onWindSpeedCommit: (value: number) => void;
+  onWindDirectionCommit: (value: number) => void;
+  onWindGustinessCommit: (value: number) => void;
+  onToggleRain: () => void;
+  onRainRateCommit: (value: number) => void;
+  onRainDropRadiusCommit: (value: number) => void;
+  onRainDropStrengthCommit: (value: number) => void;
+  onRainSizeVariationCommit: (value: number) => void;
+  onToggleRainSplashes: () => void;
+  onBoundaryModeChange: (e: any) => void;
+  onGridResolutionChange: (e: any) => void;
+  poolConfig: PoolConfig;
+  hasCustomPoolMask: boolean;
+  onPoolShapeChange: (e: any) => void;
+  onUploadPoolMask: (file: File) => void;
+  onPoolWidthCommit: (value: number) => void;
+  onPoolLengthCommit: (value: number) => void;
+  onPoolDepthCommit: (value: number) => void;
+  onFillLevelCommit: (value: number) => void;
+  hasCustomFloorMap: boolean;
+  onFloorShapeChange: (e: any) => void;
+  onUploadFloorMap: (file: File) => void;
+  onFloorReliefCommit: (value: number) => void;
+  brushConfig: BrushConfig;
+  onBrushShapeChange: (e: any) => void;
+  onBrushRadiusCommit: (value: number) => void;
+  onBrushStrengthCommit: (value: number) => void;
+  onBrushPolarityChange: (e: any) => void;
+  onBrushFalloffCommit: (value: number) => void;
+  touchCameraGesture: TouchCameraGesture;
+  onTouchCameraGestureChange: (e: any) => void;
   lightPosition: { x: number; y: number; z: number };
   onLightPositionChange: (axis: 'x' | 'y' | 'z', value: number) => void;
   skyPreset: string;
@@ -23,6 +67,14 @@ interface ControlPanelProps {
   specularIntensity: number;
   onSpecularIntensityUpdate: (value: number) => void;
   onSpecularIntensityCommit: (value: number) => void;
+  opticsConfig: OpticsConfig;
+  onIorCommit: (value: number) => void;
+  onFresnelStrengthCommit: (value: number) => void;
+  onCausticsResolutionChange: (e: any) => void;
+  onCausticsBlurCommit: (value: number) => void;
+  onCausticsIntensityCommit: (value: number) => void;
+  onToggleCausticsDispersion: () => void;
+  onDispersionAmountCommit: (value: number) => void;
   useCustomWaterColor: boolean;
   onToggleCustomWaterColor: () => void;
   waterColorShallow: string;
@@ -35,12 +87,107 @@ const SKY_PRESETS = [
     { value: 'default', label: 'Default Day' },
     { value: 'sunset', label: 'Sunset' },
     { value: 'cloudy', label: 'Cloudy' },
+    { value: 'rainy', label: 'Rainy' },
     { value: 'night', label: 'Night' },
 ];
 
+const BOUNDARY_MODES = [
+    { value: 'reflective', label: 'Reflective Walls' },
+    { value: 'absorbing', label: 'Absorbing Sponge' },
+    { value: 'periodic', label: 'Periodic Wrap' },
+];
+
+const GRID_RESOLUTIONS = [
+    { value: '64', label: '64 × 64 (Fast)' },
+    { value: '128', label: '128 × 128 (Balanced)' },
+    { value: '256', label: '256 × 256 (Detailed)' },
+    { value: '512', label: '512 × 512 (Ultra)' },
+];
+
+const CAUSTICS_RESOLUTIONS = [
+    { value: '256', label: '256 × 256 (Fast)' },
+    { value: '512', label: '512 × 512 (Balanced)' },
+    { value: '1024', label: '1024 × 1024 (Sharp)' },
+    { value: '2048', label: '2048 × 2048 (Ultra)' },
+];
+
+const POOL_SHAPES = [
+    { value: 'rectangle', label: 'Rectangle' },
+    { value: 'round', label: 'Round' },
+    { value: 'kidney', label: 'Kidney' },
+    { value: 'lShape', label: 'L-Shape' },
+    { value: 'custom', label: 'Custom Mask' },
+];
+
+const BRUSH_SHAPES = [
+    { value: 'round', label: 'Round' },
+    { value: 'gaussian', label: 'Gaussian' },
+    { value: 'ring', label: 'Ring' },
+    { value: 'line', label: 'Line' },
+];
+
+const BRUSH_POLARITIES = [
+    { value: 'pull', label: 'Pull Up' },
+    { value: 'push', label: 'Push Down' },
+];
+
+const TOUCH_CAMERA_GESTURES = [
+    { value: 'two-finger', label: 'Two Fingers (Pinch & Drag)' },
+    { value: 'one-finger', label: 'One Finger (No Painting)' },
+    { value: 'none', label: 'None (Every Finger Paints)' },
+];
+
+const FLOOR_SHAPES = [
+    { value: 'flat', label: 'Flat' },
+    { value: 'ramp', label: 'Ramp' },
+    { value: 'beach', label: 'Beach Slope' },
+    { value: 'custom', label: 'Custom Heightmap' },
+];
+
 const ControlPanel: React.FC<ControlPanelProps> = ({ 
     isPaused, 
     onTogglePause,
+    onStepFrame,
+    timeScale,
+    onTimeScaleUpdate,
+    onTimeScaleCommit,
+    simulationConfig,
+    onToggleGravity,
+    onSphereDensityCommit,
+    onSphereDragCommit,
+    onWaveSpeedCommit,
+    onDampingCommit,
+    onWindSpeedCommit,
+    onWindDirectionCommit,
+    onWindGustinessCommit,
+    onToggleRain,
+    onRainRateCommit,
+    onRainDropRadiusCommit,
+    onRainDropStrengthCommit,
+    onRainSizeVariationCommit,
+    onToggleRainSplashes,
+    onBoundaryModeChange,
+    onGridResolutionChange,
+    poolConfig,
+    hasCustomPoolMask,
+    onPoolShapeChange,
+    onUploadPoolMask,
+    onPoolWidthCommit,
+    onPoolLengthCommit,
+    onPoolDepthCommit,
+    onFillLevelCommit,
+    hasCustomFloorMap,
+    onFloorShapeChange,
+    onUploadFloorMap,
+    onFloorReliefCommit,
+    brushConfig,
+    onBrushShapeChange,
+    onBrushRadiusCommit,
+    onBrushStrengthCommit,
+    onBrushPolarityChange,
+    onBrushFalloffCommit,
+    touchCameraGesture,
+    onTouchCameraGestureChange,
     lightPosition,
     onLightPositionChange,
     skyPreset,
@@ -51,6 +198,14 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
     specularIntensity,
     onSpecularIntensityUpdate,
     onSpecularIntensityCommit,
+    opticsConfig,
+    onIorCommit,
+    onFresnelStrengthCommit,
+    onCausticsResolutionChange,
+    onCausticsBlurCommit,
+    onCausticsIntensityCommit,
+    onToggleCausticsDispersion,
+    onDispersionAmountCommit,
     useCustomWaterColor,
     onToggleCustomWaterColor,
     waterColorShallow,
@@ -59,18 +214,71 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
     onWaterColorDeepChange,
 }) => {
   const { theme } = useTheme();
+  const isTouchLayout = useBreakpoint() !== 'desktop';
 
   const lightX_MV = useMotionValue(lightPosition.x);
   const lightY_MV = useMotionValue(lightPosition.y);
   const lightZ_MV = useMotionValue(lightPosition.z);
   const lightIntensityMV = useMotionValue(lightIntensity);
   const specularIntensityMV = useMotionValue(specularIntensity);
+  const timeScaleMV = useMotionValue(timeScale);
+  const sphereDensityMV = useMotionValue(simulationConfig.sphereDensity);
+  const sphereDragMV = useMotionValue(simulationConfig.sphereDrag);
+  const waveSpeedMV = useMotionValue(simulationConfig.waveSpeed);
+  const dampingMV = useMotionValue(simulationConfig.damping);
+  const windSpeedMV = useMotionValue(simulationConfig.windSpeed);
+  const windDirectionMV = useMotionValue(simulationConfig.windDirection);
+  const windGustinessMV = useMotionValue(simulationConfig.windGustiness);
+  const rainRateMV = useMotionValue(simulationConfig.rainRate);
+  const rainDropRadiusMV = useMotionValue(simulationConfig.rainDropRadius);
+  const rainDropStrengthMV = useMotionValue(simulationConfig.rainDropStrength);
+  const rainSizeVariationMV = useMotionValue(simulationConfig.rainSizeVariation);
+  const maskInputRef = useRef<HTMLInputElement>(null);
+  const poolWidthMV = useMotionValue(poolConfig.poolWidth);
+  const poolLengthMV = useMotionValue(poolConfig.poolLength);
+  const poolDepthMV = useMotionValue(poolConfig.poolDepth);
+  const fillLevelMV = useMotionValue(poolConfig.fillLevel);
+  const floorInputRef = useRef<HTMLInputElement>(null);
+  const floorReliefMV = useMotionValue(poolConfig.floorRelief);
+  const brushRadiusMV = useMotionValue(brushConfig.brushRadius);
+  const brushStrengthMV = useMotionValue(brushConfig.brushStrength);
+  const brushFalloffMV = useMotionValue(brushConfig.brushFalloff);
+  const iorMV = useMotionValue(opticsConfig.ior);
+  const fresnelStrengthMV = useMotionValue(opticsConfig.fresnelStrength);
+  const causticsBlurMV = useMotionValue(opticsConfig.causticsBlur);
+  const causticsIntensityMV = useMotionValue(opticsConfig.causticsIntensity);
+  const dispersionAmountMV = useMotionValue(opticsConfig.dispersionAmount);
 
   React.useEffect(() => { lightX_MV.set(lightPosition.x) }, [lightPosition.x, lightX_MV]);
   React.useEffect(() => { lightY_MV.set(lightPosition.y) }, [lightPosition.y, lightY_MV]);
   React.useEffect(() => { lightZ_MV.set(lightPosition.z) }, [lightPosition.z, lightZ_MV]);
   React.useEffect(() => { lightIntensityMV.set(lightIntensity) }, [lightIntensity, lightIntensityMV]);
   React.useEffect(() => { specularIntensityMV.set(specularIntensity) }, [specularIntensity, specularIntensityMV]);
+  React.useEffect(() => { timeScaleMV.set(timeScale) }, [timeScale, timeScaleMV]);
+  React.useEffect(() => { sphereDensityMV.set(simulationConfig.sphereDensity) }, [simulationConfig.sphereDensity, sphereDensityMV]);
+  React.useEffect(() => { sphereDragMV.set(simulationConfig.sphereDrag) }, [simulationConfig.sphereDrag, sphereDragMV]);
+  React.useEffect(() => { waveSpeedMV.set(simulationConfig.waveSpeed) }, [simulationConfig.waveSpeed, waveSpeedMV]);
+  React.useEffect(() => { dampingMV.set(simulationConfig.damping) }, [simulationConfig.damping, dampingMV]);
+  React.useEffect(() => { windSpeedMV.set(simulationConfig.windSpeed) }, [simulationConfig.windSpeed, windSpeedMV]);
+  React.useEffect(() => { windDirectionMV.set(simulationConfig.windDirection) }, [simulationConfig.windDirection, windDirectionMV]);
+  React.useEffect(() => { windGustinessMV.set(simulationConfig.windGustiness) }, [simulationConfig.windGustiness, windGustinessMV]);
+  React.useEffect(() => { rainRateMV.set(simulationConfig.rainRate) }, [simulationConfig.rainRate, rainRateMV]);
+  React.useEffect(() => { rainDropRadiusMV.set(simulationConfig.rainDropRadius) }, [simulationConfig.rainDropRadius, rainDropRadiusMV]);
+  React.useEffect(() => { rainDropStrengthMV.set(simulationConfig.rainDropStrength) }, [simulationConfig.rainDropStrength, rainDropStrengthMV]);
+  React.useEffect(() => { rainSizeVariationMV.set(simulationConfig.rainSizeVariation) }, [simulationConfig.rainSizeVariation, rainSizeVariationMV]);
+  React.useEffect(() => { poolWidthMV.set(poolConfig.poolWidth) }, [poolConfig.poolWidth, poolWidthMV]);
+  React.useEffect(() => { poolLengthMV.set(poolConfig.poolLength) }, [poolConfig.poolLength, poolLengthMV]);
+  React.useEffect(() => { poolDepthMV.set(poolConfig.poolDepth) }, [poolConfig.poolDepth, poolDepthMV]);
+  React.useEffect(() => { fillLevelMV.set(poolConfig.fillLevel) }, [poolConfig.fillLevel, fillLevelMV]);
+  React.useEffect(() => { floorReliefMV.set(poolConfig.floorRelief) }, [poolConfig.floorRelief, floorReliefMV]);
+  React.useEffect(() => { brushRadiusMV.set(brushConfig.brushRadius) }, [brushConfig.brushRadius, brushRadiusMV]);
+  React.useEffect(() => { brushStrengthMV.set(brushConfig.brushStrength) }, [brushConfig.brushStrength, brushStrengthMV]);
+  React.useEffect(() => { brushFalloffMV.set(brushConfig.brushFalloff) }, [brushConfig.brushFalloff, brushFalloffMV]);
+  React.useEffect(() => { iorMV.set(opticsConfig.ior) }, [opticsConfig.ior, iorMV]);
+  React.useEffect(() => { fresnelStrengthMV.set(opticsConfig.fresnelStrength) }, [opticsConfig.fresnelStrength, fresnelStrengthMV]);
+  React.useEffect(() => { causticsBlurMV.set(opticsConfig.causticsBlur) }, [opticsConfig.causticsBlur, causticsBlurMV]);
+  React.useEffect(() => { causticsIntensityMV.set(opticsConfig.causticsIntensity) }, [opticsConfig.causticsIntensity, causticsIntensityMV]);
+  React.useEffect(() => { dispersionAmountMV.set(opticsConfig.dispersionAmount) }, [opticsConfig.dispersionAmount, dispersionAmountMV]);
 
   const sectionDivider = <div style={{ borderTop: `1px solid ${theme.Color.Base.Surface[3]}`, margin: `0` }} />;
   const sectionHeader = (label: string) => (
@@ -90,9 +298,311 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
         isOn={isPaused}
         onToggle={onTogglePause}
       />
+
+      <Button
+        label="Step One Frame"
+        icon="ph-skip-forward"
+        size="S"
+        variant="secondary"
+        disabled={!isPaused}
+        onClick={onStepFrame}
+      />
+
+      <RangeSlider
+        label="Time Scale"
+        motionValue={timeScaleMV}
+        onUpdate={onTimeScaleUpdate}
+        onCommit={onTimeScaleCommit}
+        min={0.1} max={4} step={0.05}
+      />
       
       {sectionDivider}
 
+      {sectionHeader("Sphere Physics")}
+
+      <Toggle
+        label="Sphere Gravity"
+        isOn={simulationConfig.gravity}
+        onToggle={onToggleGravity}
+      />
+
+      <RangeSlider
+        label="Sphere Density"
+        motionValue={sphereDensityMV}
+        onCommit={onSphereDensityCommit}
+        min={0.1} max={2} step={0.05}
+      />
+
+      <RangeSlider
+        label="Sphere Drag"
+        motionValue={sphereDragMV}
+        onCommit={onSphereDragCommit}
+        min={0} max={5} step={0.1}
+      />
+
+      {sectionDivider}
+
+      {sectionHeader("Waves")}
+
+      <RangeSlider
+        label="Wave Speed"
+        motionValue={waveSpeedMV}
+        onCommit={onWaveSpeedCommit}
+        min={0.1} max={2} step={0.05}
+      />
+
+      <RangeSlider
+        label="Damping"
+        motionValue={dampingMV}
+        onCommit={onDampingCommit}
+        min={0.9} max={1} step={0.001}
+      />
+
+      <Select
+        label="Pool Edges"
+        value={simulationConfig.boundaryMode}
+        onChange={onBoundaryModeChange}
+        options={BOUNDARY_MODES}
+      />
+
+      <Select
+        label="Grid Resolution"
+        value={String(simulationConfig.gridResolution)}
+        onChange={onGridResolutionChange}
+        options={GRID_RESOLUTIONS}
+      />
+
+      {sectionDivider}
+
+      {sectionHeader("Brush")}
+
+      <Select
+        label="Brush Shape"
+        value={brushConfig.brushShape}
+        onChange={onBrushShapeChange}
+        options={BRUSH_SHAPES}
+      />
+
+      <RangeSlider
+        label="Brush Radius"
+        motionValue={brushRadiusMV}
+        onCommit={onBrushRadiusCommit}
+        min={0.02} max={0.2} step={0.005}
+      />
+
+      <RangeSlider
+        label="Brush Strength"
+        motionValue={brushStrengthMV}
+        onCommit={onBrushStrengthCommit}
+        min={0.005} max={0.05} step={0.001}
+      />
+
+      {/* Holding Alt while painting flips whichever polarity is picked here */}
+      <Select
+        label="Brush Polarity"
+        value={brushConfig.brushPolarity}
+        onChange={onBrushPolarityChange}
+        options={BRUSH_POLARITIES}
+      />
+
+      <RangeSlider
+        label="Brush Falloff"
+        motionValue={brushFalloffMV}
+        onCommit={onBrushFalloffCommit}
+        min={0} max={1} step={0.05}
+      />
+
+      {/* Only tablet and phone layouts are likely to be driven by touch */}
+      {isTouchLayout && (
+        <Select
+          label="Touch Camera Gesture"
+          value={touchCameraGesture}
+          onChange={onTouchCameraGestureChange}
+          options={TOUCH_CAMERA_GESTURES}
+        />
+      )}
+
+      {sectionDivider}
+
+      {sectionHeader("Wind")}
+
+      <RangeSlider
+        label="Wind Speed"
+        motionValue={windSpeedMV}
+        onCommit={onWindSpeedCommit}
+        min={0} max={10} step={0.1}
+      />
+
+      {/* Calm stops all automatic ripples; only clicks, the sphere and the API move the water */}
+      <Button
+        label="Calm"
+        icon="ph-wind"
+        size="S"
+        variant="secondary"
+        disabled={simulationConfig.windSpeed === 0}
+        onClick={() => onWindSpeedCommit(0)}
+      />
+
+      <RangeSlider
+        label="Wind Direction"
+        motionValue={windDirectionMV}
+        onCommit={onWindDirectionCommit}
+        min={0} max={360} step={5}
+      />
+
+      <RangeSlider
+        label="Gustiness"
+        motionValue={windGustinessMV}
+        onCommit={onWindGustinessCommit}
+        min={0} max={1} step={0.05}
+      />
+
+      {sectionDivider}
+
+      {sectionHeader("Rain")}
+
+      {/* While it rains the sky switches to the Rainy look (except at night); the Sky Preset comes back once it stops */}
+      <Toggle
+        label="Rain"
+        isOn={simulationConfig.rain}
+        onToggle={onToggleRain}
+      />
+
+      {simulationConfig.rain && (
+        <>
+          <RangeSlider
+            label="Drops per Second"
+            motionValue={rainRateMV}
+            onCommit={onRainRateCommit}
+            min={1} max={400} step={1}
+          />
+
+          <RangeSlider
+            label="Drop Radius"
+            motionValue={rainDropRadiusMV}
+            onCommit={onRainDropRadiusCommit}
+            min={0.01} max={0.08} step={0.005}
+          />
+
+          <RangeSlider
+            label="Drop Strength"
+            motionValue={rainDropStrengthMV}
+            onCommit={onRainDropStrengthCommit}
+            min={0.002} max={0.05} step={0.001}
+          />
+
+          <RangeSlider
+            label="Size Variation"
+            motionValue={rainSizeVariationMV}
+            onCommit={onRainSizeVariationCommit}
+            min={0} max={1} step={0.05}
+          />
+
+          <Toggle
+            label="Splashes"
+            isOn={simulationConfig.rainSplashes}
+            onToggle={onToggleRainSplashes}
+          />
+        </>
+      )}
+
+      {sectionDivider}
+
+      {sectionHeader("Pool")}
+
+      <Select
+        label="Pool Shape"
+        value={poolConfig.poolShape}
+        onChange={onPoolShapeChange}
+        options={POOL_SHAPES}
+      />
+
+      {/* White areas of the image are water, dark areas are ground */}
+      <Button
+        label={hasCustomPoolMask ? "Replace Mask Image" : "Upload Mask Image"}
+        icon="ph-upload-simple"
+        size="S"
+        variant="secondary"
+        onClick={() => maskInputRef.current?.click()}
+      />
+      <input
+        ref={maskInputRef}
+        type="file"
+        accept="image/*"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) onUploadPoolMask(file);
+          e.target.value = ''; // Let the same file be picked again
+        }}
+        style={{ display: 'none' }}
+      />
+
+      <RangeSlider
+        label="Pool Width"
+        motionValue={poolWidthMV}
+        onCommit={onPoolWidthCommit}
+        min={1} max={4} step={0.1}
+      />
+
+      <RangeSlider
+        label="Pool Length"
+        motionValue={poolLengthMV}
+        onCommit={onPoolLengthCommit}
+        min={1} max={4} step={0.1}
+      />
+
+      <RangeSlider
+        label="Pool Depth"
+        motionValue={poolDepthMV}
+        onCommit={onPoolDepthCommit}
+        min={0.5} max={2} step={0.05}
+      />
+
+      <RangeSlider
+        label="Fill Level"
+        motionValue={fillLevelMV}
+        onCommit={onFillLevelCommit}
+        min={0.2} max={1} step={0.05}
+      />
+
+      <Select
+        label="Floor Shape"
+        value={poolConfig.floorShape}
+        onChange={onFloorShapeChange}
+        options={FLOOR_SHAPES}
+      />
+
+      {/* Brighter areas of the image are shallower */}
+      <Button
+        label={hasCustomFloorMap ? "Replace Heightmap" : "Upload Heightmap"}
+        icon="ph-upload-simple"
+        size="S"
+        variant="secondary"
+        onClick={() => floorInputRef.current?.click()}
+      />
+      <input
+        ref={floorInputRef}
+        type="file"
+        accept="image/*"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) onUploadFloorMap(file);
+          e.target.value = ''; // Let the same file be picked again
+        }}
+        style={{ display: 'none' }}
+      />
+
+      {poolConfig.floorShape !== 'flat' && (
+        <RangeSlider
+          label="Floor Relief"
+          motionValue={floorReliefMV}
+          onCommit={onFloorReliefCommit}
+          min={0} max={0.9} step={0.05}
+        />
+      )}
+
+      {sectionDivider}
+
       {sectionHeader("Environment")}
 
       <Select
@@ -141,6 +651,64 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
         min={0} max={10} step={0.1}
       />
 
+      {sectionDivider}
+
+      {sectionHeader("Optics")}
+
+      <RangeSlider
+        label="Index of Refraction"
+        motionValue={iorMV}
+        onCommit={onIorCommit}
+        min={1} max={2.5} step={0.01}
+      />
+
+      <RangeSlider
+        label="Fresnel Strength"
+        motionValue={fresnelStrengthMV}
+        onCommit={onFresnelStrengthCommit}
+        min={0} max={2} step={0.05}
+      />
+
+      {sectionDivider}
+
+      {sectionHeader("Caustics")}
+
+      <Select
+        label="Caustics Resolution"
+        value={String(opticsConfig.causticsResolution)}
+        onChange={onCausticsResolutionChange}
+        options={CAUSTICS_RESOLUTIONS}
+      />
+
+      <RangeSlider
+        label="Caustics Blur (0 = Off)"
+        motionValue={causticsBlurMV}
+        onCommit={onCausticsBlurCommit}
+        min={0} max={4} step={0.25}
+      />
+
+      <RangeSlider
+        label="Caustics Intensity"
+        motionValue={causticsIntensityMV}
+        onCommit={onCausticsIntensityCommit}
+        min={0} max={2} step={0.05}
+      />
+
+      <Toggle
+        label="Chromatic Dispersion"
+        isOn={opticsConfig.causticsDispersion}
+        onToggle={onToggleCausticsDispersion}
+      />
+
+      {opticsConfig.causticsDispersion && (
+        <RangeSlider
+          label="Dispersion Amount"
+          motionValue={dispersionAmountMV}
+          onCommit={onDispersionAmountCommit}
+          min={0} max={0.1} step={0.005}
+        />
+      )}
+
       {sectionDivider}
       
       {sectionHeader("Water Surface")}
@@ -0,0 +1,65 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import * as THREE from 'three';
+import { FloorShape } from '../../types/index.tsx';
+import { rasterizeGrayscale, sampleGrayscale } from './PoolMask.tsx';
+
+/**
+ * The pool floor's relief, stored as a square grayscale heightmap stretched over the pool like the
+ * outline mask (same texel layout). Black is the full water depth; white is raised by the config's
+ * `floorRelief`. The pool mesh, the surface shader, the caustics and the wave solver all read it.
+ */
+export interface FloorMap {
+  shape: FloorShape;
+  size: number;
+  data: Uint8Array; // One byte per texel, row by row starting at v = 0
+  texture: THREE.DataTexture;
+}
+
+export const FLOOR_MAP_SIZE = 128;
+
+// Built-in floors are gradients along the pool's length, shallow at the far end (the top of the canvas).
+const drawBuiltInFloor = (context: CanvasRenderingContext2D, shape: FloorShape, size: number) => {
+  if (shape !== 'ramp' && shape !== 'beach') return; // Flat stays black
+  const gradient = context.createLinearGradient(0, size, 0, 0);
+  gradient.addColorStop(0, '#000000');
+  if (shape === 'beach') {
+    // Deep for the first stretch, then an eased shelf up to the shore
+    gradient.addColorStop(0.4, '#000000');
+    gradient.addColorStop(0.6, '#404040');
+    gradient.addColorStop(0.8, '#b0b0b0');
+  }
+  gradient.addColorStop(1, '#ffffff');
+  context.fillStyle = gradient;
+  context.fillRect(0, 0, size, size);
+};
+
+/** Rasterizes a built-in floor or an uploaded grayscale image (brighter = shallower, stretched over the whole pool). */
+export const createFloorMap = (source: FloorShape | HTMLImageElement): FloorMap => {
+  const size = FLOOR_MAP_SIZE;
+  const shape: FloorShape = typeof source === 'string' ? source : 'custom';
+  const { data, texture } = rasterizeGrayscale(size, context => {
+    if (typeof source === 'string') drawBuiltInFloor(context, source, size);
+    else context.drawImage(source, 0, 0, size, size);
+  }, 0);
+  return { shape, size, data, texture };
+};
+
+export const disposeFloorMap = (floor: FloorMap) => floor.texture.dispose();
+
+// Built-in floors never change, so each is rasterized once and shared.
+const builtInFloors = new Map<FloorShape, FloorMap>();
+export const getBuiltInFloorMap = (shape: FloorShape) => {
+  const key = shape === 'custom' ? 'flat' : shape;
+  let floor = builtInFloors.get(key);
+  if (!floor) {
+    floor = createFloorMap(key);
+    builtInFloors.set(key, floor);
+  }
+  return floor;
+};
+
+/** How far the floor is raised at a point in simulation UV space, from 0 (full depth) to 1. */
+export const sampleFloorMap = (floor: FloorMap, u: number, v: number) => sampleGrayscale(floor.data, floor.size, u, v);
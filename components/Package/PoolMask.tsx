@@ -0,0 +1,350 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import * as THREE from 'three';
+import { PoolShape } from '../../types/index.tsx';
+
+/**
+ * A pool outline, stored as a square grayscale mask stretched over the pool's width and length.
+ * Texel (i, j) covers simulation UV ((i + 0.5) / size, (j + 0.5) / size). Half brightness or more
+ * is water; anything darker is solid ground. The wave solver, the surface shader and the pool
+ * mesh all read the same mask, so walls line up everywhere.
+ */
+export interface PoolMask {
+  shape: PoolShape;
+  size: number;
+  data: Uint8Array; // One byte per texel, row by row starting at v = 0
+  texture: THREE.DataTexture;
+  // How far each water texel is from the nearest wall, in UV units: the byte maps 0..255 onto
+  // 0..EDGE_DISTANCE_RANGE (and stays there beyond it). Ground is 0. The absorbing sponge follows it.
+  edgeDistance: THREE.DataTexture;
+}
+
+export const POOL_MASK_SIZE = 128;
+export const EDGE_DISTANCE_RANGE = 0.25;
+const WATER_THRESHOLD = 0.5;
+
+// Built-in outlines, drawn white on black into a unit square (canvas Y runs from the far end of the pool).
+const drawBuiltInShape = (context: CanvasRenderingContext2D, shape: PoolShape, size: number) => {
+  context.save();
+  context.scale(size, size);
+  context.beginPath();
+  switch (shape) {
+    case 'round':
+      context.ellipse(0.5, 0.5, 0.5, 0.5, 0, 0, Math.PI * 2);
+      break;
+    case 'kidney':
+      context.moveTo(0.5, 0.3);
+      context.bezierCurveTo(0.62, 0.08, 0.98, 0.05, 0.98, 0.45);
+      context.bezierCurveTo(0.98, 0.85, 0.75, 0.98, 0.5, 0.96);
+      context.bezierCurveTo(0.2, 0.98, 0.02, 0.85, 0.02, 0.5);
+      context.bezierCurveTo(0.02, 0.12, 0.38, 0.05, 0.5, 0.3);
+      break;
+    case 'lShape':
+      context.moveTo(0, 0);
+      context.lineTo(0.5, 0);
+      context.lineTo(0.5, 0.5);
+      context.lineTo(1, 0.5);
+      context.lineTo(1, 1);
+      context.lineTo(0, 1);
+      break;
+    default:
+      context.rect(0, 0, 1, 1);
+  }
+  context.closePath();
+  context.fillStyle = '#ffffff';
+  context.fill();
+  context.restore();
+};
+
+/**
+ * Draws into a square canvas (starting black) and reads it back as one brightness byte per texel,
+ * row by row from v = 0 up, along with a linearly filtered texture of the same. Transparent pixels
+ * count as black. If there's no 2D context every texel gets `fallback`.
+ */
+export const rasterizeGrayscale = (size: number, draw: (context: CanvasRenderingContext2D) => void, fallback: number) => {
+  const data = new Uint8Array(size * size).fill(fallback);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = size;
+  canvas.height = size;
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (context) {
+    context.fillStyle = '#000000';
+    context.fillRect(0, 0, size, size);
+    draw(context);
+
+    const pixels = context.getImageData(0, 0, size, size).data;
+    for (let row = 0; row < size; row++) {
+      const j = size - 1 - row; // Canvas rows run top-down, the mask runs from v = 0 up
+      for (let i = 0; i < size; i++) {
+        const p = (row * size + i) * 4;
+        const luminance = 0.299 * pixels[p] + 0.587 * pixels[p + 1] + 0.114 * pixels[p + 2];
+        data[j * size + i] = Math.round(luminance * pixels[p + 3] / 255);
+      }
+    }
+  } else {
+    console.error('Failed to get 2D context for a grayscale map; using a uniform fallback');
+  }
+
+  const texture = new THREE.DataTexture(data, size, size, THREE.RedFormat, THREE.UnsignedByteType);
+  texture.magFilter = THREE.LinearFilter;
+  texture.minFilter = THREE.LinearFilter;
+  texture.needsUpdate = true;
+  return { data, texture };
+};
+
+/** Bilinear lookup into a raster from `rasterizeGrayscale`, matching the GPU's linear filtering (0..1, edges clamp). */
+export const sampleGrayscale = (data: Uint8Array, size: number, u: number, v: number) => {
+  const x = THREE.MathUtils.clamp(u * size - 0.5, 0, size - 1);
+  const y = THREE.MathUtils.clamp(v * size - 0.5, 0, size - 1);
+  const x0 = Math.floor(x), y0 = Math.floor(y);
+  const x1 = Math.min(x0 + 1, size - 1), y1 = Math.min(y0 + 1, size - 1);
+  const fx = x - x0, fy = y - y0;
+  const bottom = data[y0 * size + x0] * (1 - fx) + data[y0 * size + x1] * fx;
+  const top = data[y1 * size + x0] * (1 - fx) + data[y1 * size + x1] * fx;
+  return (bottom * (1 - fy) + top * fy) / 255;
+};
+
+// Two-pass chamfer distance transform (steps of 1 and sqrt 2) from each water texel to the
+// nearest ground texel, with everything off the mask counting as ground.
+const createEdgeDistance = (data: Uint8Array, size: number) => {
+  const DIAGONAL = Math.SQRT2;
+  const distance = new Float32Array(size * size);
+  const at = (i: number, j: number) => (i < 0 || j < 0 || i >= size || j >= size ? 0 : distance[j * size + i]);
+  for (let k = 0; k < data.length; k++) distance[k] = data[k] >= WATER_THRESHOLD * 255 ? Infinity : 0;
+  for (let j = 0; j < size; j++) {
+    for (let i = 0; i < size; i++) {
+      const k = j * size + i;
+      if (distance[k] === 0) continue;
+      distance[k] = Math.min(distance[k], at(i - 1, j) + 1, at(i, j - 1) + 1, at(i - 1, j - 1) + DIAGONAL, at(i + 1, j - 1) + DIAGONAL);
+    }
+  }
+  for (let j = size - 1; j >= 0; j--) {
+    for (let i = size - 1; i >= 0; i--) {
+      const k = j * size + i;
+      if (distance[k] === 0) continue;
+      distance[k] = Math.min(distance[k], at(i + 1, j) + 1, at(i, j + 1) + 1, at(i + 1, j + 1) + DIAGONAL, at(i - 1, j + 1) + DIAGONAL);
+    }
+  }
+
+  // The wall runs half a texel in front of the ground texel's center
+  const packed = new Uint8Array(size * size);
+  for (let k = 0; k < packed.length; k++) {
+    const edge = Math.max(0, distance[k] - 0.5) / size;
+    packed[k] = Math.round(Math.min(1, edge / EDGE_DISTANCE_RANGE) * 255);
+  }
+  const texture = new THREE.DataTexture(packed, size, size, THREE.RedFormat, THREE.UnsignedByteType);
+  texture.magFilter = THREE.LinearFilter;
+  texture.minFilter = THREE.LinearFilter;
+  texture.needsUpdate = true;
+  return texture;
+};
+
+/** Rasterizes a built-in shape or an uploaded image (bright = water, stretched over the whole pool). */
+export const createPoolMask = (source: PoolShape | HTMLImageElement): PoolMask => {
+  const size = POOL_MASK_SIZE;
+  const shape: PoolShape = typeof source === 'string' ? source : 'custom';
+  const { data, texture } = rasterizeGrayscale(size, context => {
+    if (typeof source === 'string') drawBuiltInShape(context, source, size);
+    else context.drawImage(source, 0, 0, size, size);
+  }, 255);
+  return { shape, size, data, texture, edgeDistance: createEdgeDistance(data, size) };
+};
+
+export const disposePoolMask = (mask: PoolMask) => {
+  mask.texture.dispose();
+  mask.edgeDistance.dispose();
+};
+
+// Built-in masks never change, so each is rasterized once and shared.
+const builtInMasks = new Map<PoolShape, PoolMask>();
+export const getBuiltInPoolMask = (shape: PoolShape) => {
+  const key = shape === 'custom' ? 'rectangle' : shape;
+  let mask = builtInMasks.get(key);
+  if (!mask) {
+    mask = createPoolMask(key);
+    builtInMasks.set(key, mask);
+  }
+  return mask;
+};
+
+export const loadImage = (src: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const image = new Image();
+  image.onload = () => resolve(image);
+  image.onerror = () => reject(new Error('Not a readable image'));
+  image.src = src;
+});
+
+/** Reads an uploaded file as a data URL and checks the browser can decode it. Resolves null if not. */
+export const readImageFile = async (file: File) => {
+  const dataUrl = await new Promise<string | null>(resolve => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(typeof reader.result === 'string' ? reader.result : null);
+    reader.onerror = () => resolve(null);
+    reader.readAsDataURL(file);
+  });
+  const image = dataUrl ? await loadImage(dataUrl).catch(() => null) : null;
+  return dataUrl && image ? { dataUrl, image } : null;
+};
+
+const EDGE_TOLERANCE = 1e-6; // Lets points exactly on the pool's bounding box (give or take rounding) count as inside
+
+// Anything off the mask counts as ground.
+const sampleMask = (mask: PoolMask, u: number, v: number) => {
+  if (u < -EDGE_TOLERANCE || u > 1 + EDGE_TOLERANCE || v < -EDGE_TOLERANCE || v > 1 + EDGE_TOLERANCE) return 0;
+  return sampleGrayscale(mask.data, mask.size, u, v);
+};
+
+/** Whether a point in simulation UV space is water. */
+export const isPoolWater = (mask: PoolMask, u: number, v: number) => sampleMask(mask, u, v) >= WATER_THRESHOLD;
+
+/** Whether the world point (x, z) is over water in a pool of the given width and length. */
+export const isWaterAt = (mask: PoolMask, width: number, length: number, x: number, z: number) =>
+  isPoolWater(mask, x / width + 0.5, 0.5 - z / length);
+
+/** Whether a ball of this radius centered over (x, z) stays clear of every wall. */
+export const fitsInPool = (mask: PoolMask, width: number, length: number, x: number, z: number, radius: number) => {
+  if (!isWaterAt(mask, width, length, x, z)) return false;
+  for (let i = 0; i < 8; i++) {
+    const angle = i * Math.PI / 4;
+    if (!isWaterAt(mask, width, length, x + Math.cos(angle) * radius, z + Math.sin(angle) * radius)) return false;
+  }
+  return true;
+};
+
+/** The spot closest to (x, z) where a ball of this radius fits, or null if the outline is too small for it. */
+export const nearestOpenSpot = (mask: PoolMask, width: number, length: number, x: number, z: number, radius: number) => {
+  const steps = 32;
+  let best: { x: number; z: number } | null = null;
+  let bestDistance = Infinity;
+  for (let j = 0; j < steps; j++) {
+    for (let i = 0; i < steps; i++) {
+      const px = ((i + 0.5) / steps - 0.5) * width;
+      const pz = ((j + 0.5) / steps - 0.5) * length;
+      const distance = (px - x) ** 2 + (pz - z) ** 2;
+      if (distance < bestDistance && fitsInPool(mask, width, length, px, pz, radius)) {
+        best = { x: px, z: pz };
+        bestDistance = distance;
+      }
+    }
+  }
+  return best;
+};
+
+/**
+ * Builds the floor and walls of a pool with this outline, traced from the mask with marching squares.
+ * Faces point outward like a box's, so the pool is drawn from inside with `THREE.BackSide`.
+ * `bottom` is either a flat floor height or the floor height at each UV point, for a sloping floor.
+ * `inset` pulls everything in a little, for a water body that shouldn't z-fight with the tiles.
+ * UVs come from world position, so the tiles keep their size however the pool is shaped.
+ */
+export const createPoolGeometry = (
+  mask: PoolMask,
+  width: number,
+  length: number,
+  bottom: number | ((u: number, v: number) => number),
+  top: number,
+  inset = 0,
+) => {
+  const { size } = mask;
+  const isFlat = typeof bottom === 'number';
+  const floorAt = (u: number, v: number) => typeof bottom === 'number' ? bottom : bottom(u, v);
+  const scaleX = (width / 2 - inset) / (width / 2);
+  const scaleZ = (length / 2 - inset) / (length / 2);
+  const positions: number[] = [];
+  const normals: number[] = [];
+  const uvs: number[] = [];
+
+  // Mask value at texel (i, j), with a ring of ground around the outside so every outline closes.
+  const value = (i: number, j: number) => (i < 0 || j < 0 || i >= size || j >= size) ? 0 : mask.data[j * size + i] / 255;
+  const toWorld = (u: number, v: number, y: number) => new THREE.Vector3((u - 0.5) * width * scaleX, y, (0.5 - v) * length * scaleZ);
+
+  // Adds a triangle facing along `normal`, flipping the winding if needed.
+  const ab = new THREE.Vector3();
+  const ac = new THREE.Vector3();
+  const pushTriangle = (a: THREE.Vector3, b: THREE.Vector3, c: THREE.Vector3, normal: THREE.Vector3, uvOf: (p: THREE.Vector3) => [number, number]) => {
+    ab.subVectors(b, a);
+    ac.subVectors(c, a);
+    const corners = ab.cross(ac).dot(normal) >= 0 ? [a, b, c] : [a, c, b];
+    corners.forEach(p => {
+      positions.push(p.x, p.y, p.z);
+      normals.push(normal.x, normal.y, normal.z);
+      uvs.push(...uvOf(p));
+    });
+  };
+  const floorUv = (p: THREE.Vector3): [number, number] => [p.x * 0.5 + 0.5, p.z * 0.5 + 0.5];
+  const floorPoint = (u: number, v: number) => toWorld(u, v, floorAt(u, v));
+  // A sloping floor gets each triangle's own normal, still turned outward (down)
+  const floorNormal = new THREE.Vector3();
+  const pushFloorTriangle = (a: THREE.Vector3, b: THREE.Vector3, c: THREE.Vector3) => {
+    floorNormal.subVectors(b, a).cross(ac.subVectors(c, a));
+    if (isFlat || floorNormal.lengthSq() === 0) floorNormal.set(0, -1, 0);
+    else if (floorNormal.y > 0) floorNormal.negate().normalize();
+    else floorNormal.normalize();
+    pushTriangle(a, b, c, floorNormal, floorUv);
+  };
+  const pushFloorQuad = (u0: number, v0: number, u1: number, v1: number) => {
+    const a = floorPoint(u0, v0), b = floorPoint(u1, v0), c = floorPoint(u1, v1), d = floorPoint(u0, v1);
+    pushFloorTriangle(a, b, c);
+    pushFloorTriangle(a, c, d);
+  };
+  const pushWall = (u0: number, v0: number, u1: number, v1: number) => {
+    // Outward is to the right of the walk, which keeps water on its left
+    const normal = new THREE.Vector3((v1 - v0) / width, 0, (u1 - u0) / length).normalize();
+    const alongX = Math.abs(normal.z) > Math.abs(normal.x);
+    const wallUv = (p: THREE.Vector3): [number, number] => [(alongX ? p.x : p.z) * 0.5 + 0.5, p.y * 0.5 + 0.5];
+    const a = floorPoint(u0, v0), b = floorPoint(u1, v1), c = toWorld(u1, v1, top), d = toWorld(u0, v0, top);
+    pushTriangle(a, b, c, normal, wallUv);
+    pushTriangle(a, c, d, normal, wallUv);
+  };
+
+  const toUv = (i: number) => (i + 0.5) / size;
+  for (let j = -1; j < size; j++) {
+    // Fully wet cells in a row become one floor quad if the floor is flat. The ring of ground always ends a run.
+    let runStart: number | null = null;
+    for (let i = -1; i < size; i++) {
+      // Corners counter-clockwise in UV space, so the water is always on the left of the walk
+      const corners = [[i, j], [i + 1, j], [i + 1, j + 1], [i, j + 1]].map(([ci, cj]) => ({ u: toUv(ci), v: toUv(cj), value: value(ci, cj) }));
+      const wet = corners.map(corner => corner.value >= WATER_THRESHOLD);
+
+      if (wet.every(Boolean)) {
+        if (!isFlat) pushFloorQuad(corners[0].u, corners[0].v, corners[2].u, corners[2].v);
+        else if (runStart === null) runStart = i;
+        continue;
+      }
+      if (runStart !== null) {
+        pushFloorQuad(toUv(runStart), toUv(j), toUv(i), toUv(j + 1));
+        runStart = null;
+      }
+      if (!wet.some(Boolean)) continue;
+
+      // Walk the cell's edge, keeping wet corners and the points where the outline crosses
+      const outline: { u: number; v: number; crossing: boolean }[] = [];
+      corners.forEach((corner, k) => {
+        const next = corners[(k + 1) % 4];
+        if (wet[k]) outline.push({ u: corner.u, v: corner.v, crossing: false });
+        if (wet[k] !== wet[(k + 1) % 4]) {
+          const t = (WATER_THRESHOLD - corner.value) / (next.value - corner.value);
+          outline.push({ u: corner.u + (next.u - corner.u) * t, v: corner.v + (next.v - corner.v) * t, crossing: true });
+        }
+      });
+
+      const floorPoints = outline.map(p => floorPoint(p.u, p.v));
+      for (let k = 1; k < floorPoints.length - 1; k++) pushFloorTriangle(floorPoints[0], floorPoints[k], floorPoints[k + 1]);
+
+      // Two crossings in a row means the walk cut across the cell: that stretch is wall
+      outline.forEach((p, k) => {
+        const next = outline[(k + 1) % outline.length];
+        if (p.crossing && next.crossing) pushWall(p.u, p.v, next.u, next.v);
+      });
+    }
+  }
+
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+  geometry.setAttribute('normal', new THREE.Float32BufferAttribute(normals, 3));
+  geometry.setAttribute('uv', new THREE.Float32BufferAttribute(uvs, 2));
+  return geometry;
+};
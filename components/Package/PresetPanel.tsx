@@ -0,0 +1,133 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import React, { useRef, useState } from 'react';
+import { useTheme } from '../../Theme.tsx';
+import Input from '../Core/Input.tsx';
+import Button from '../Core/Button.tsx';
+import { ScenePreset } from '../../types/index.tsx';
+
+interface PresetPanelProps {
+  presets: ScenePreset[];
+  onSavePreset: (name: string) => void;
+  onLoadPreset: (preset: ScenePreset) => void;
+  onRenamePreset: (id: string, name: string) => void;
+  onDeletePreset: (preset: ScenePreset) => void;
+  onExportPresets: (ids?: string[]) => void;
+  onImportPresets: (file: File) => void;
+}
+
+const PresetPanel: React.FC<PresetPanelProps> = ({
+  presets,
+  onSavePreset,
+  onLoadPreset,
+  onRenamePreset,
+  onDeletePreset,
+  onExportPresets,
+  onImportPresets,
+}) => {
+  const { theme } = useTheme();
+  const [newName, setNewName] = useState('');
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameText, setRenameText] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleSave = () => {
+    onSavePreset(newName);
+    setNewName('');
+  };
+
+  const startRename = (preset: ScenePreset) => {
+    setRenamingId(preset.id);
+    setRenameText(preset.name);
+  };
+
+  const finishRename = () => {
+    if (renamingId) onRenamePreset(renamingId, renameText);
+    setRenamingId(null);
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) onImportPresets(file);
+    e.target.value = ''; // Let the same file be picked again
+  };
+
+  const rowStyle: React.CSSProperties = {
+    display: 'flex',
+    alignItems: 'center',
+    gap: theme.spacing['Space.XS'],
+    padding: `${theme.spacing['Space.XS']} ${theme.spacing['Space.S']}`,
+    borderRadius: theme.radius['Radius.S'],
+    backgroundColor: theme.Color.Base.Surface[2],
+  };
+
+  const renameInputStyle: React.CSSProperties = {
+    flex: 1,
+    minWidth: 0,
+    padding: theme.spacing['Space.XS'],
+    borderRadius: theme.radius['Radius.S'],
+    border: `1px solid ${theme.Color.Focus.Content[1]}`,
+    backgroundColor: theme.Color.Base.Surface[1],
+    color: theme.Color.Base.Content[1],
+    fontFamily: theme.Type.Readable.Body.M.fontFamily,
+    fontSize: '14px',
+    outline: 'none',
+  };
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: theme.spacing['Space.L'] }}>
+      <div style={{ display: 'flex', alignItems: 'flex-end', gap: theme.spacing['Space.S'] }}>
+        <div style={{ flex: 1 }}>
+          <Input label="Preset Name" value={newName} onChange={(e) => setNewName(e.target.value)} />
+        </div>
+        <div onPointerDown={(e) => e.stopPropagation()}>
+          <Button label="Save" icon="ph-floppy-disk" size="S" variant="primary" onClick={handleSave} />
+        </div>
+      </div>
+
+      <div style={{ display: 'flex', flexDirection: 'column', gap: theme.spacing['Space.XS'] }} onPointerDown={(e) => e.stopPropagation()}>
+        {presets.length === 0 && (
+          <p style={{ ...theme.Type.Readable.Body.M, color: theme.Color.Base.Content[3], margin: 0, textAlign: 'center' }}>
+            No presets yet. Save the current look to get started.
+          </p>
+        )}
+
+        {presets.map(preset => (
+          <div key={preset.id} style={rowStyle}>
+            {renamingId === preset.id ? (
+              <input
+                autoFocus
+                value={renameText}
+                onChange={(e) => setRenameText(e.target.value)}
+                onBlur={finishRename}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') finishRename();
+                  if (e.key === 'Escape') setRenamingId(null);
+                }}
+                style={renameInputStyle}
+              />
+            ) : (
+              <span style={{ ...theme.Type.Readable.Label.S, flex: 1, minWidth: 0, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap', color: theme.Color.Base.Content[1] }}>
+                {preset.name}
+              </span>
+            )}
+            <Button label="" icon="ph-play" size="S" variant="ghost" onClick={() => onLoadPreset(preset)} />
+            <Button label="" icon="ph-pencil-simple" size="S" variant="ghost" onClick={() => startRename(preset)} />
+            <Button label="" icon="ph-export" size="S" variant="ghost" onClick={() => onExportPresets([preset.id])} />
+            <Button label="" icon="ph-trash" size="S" variant="ghost" onClick={() => onDeletePreset(preset)} />
+          </div>
+        ))}
+      </div>
+
+      <div style={{ display: 'flex', gap: theme.spacing['Space.S'] }} onPointerDown={(e) => e.stopPropagation()}>
+        <Button label="Import" icon="ph-upload-simple" size="S" variant="secondary" onClick={() => fileInputRef.current?.click()} />
+        <Button label="Export All" icon="ph-download-simple" size="S" variant="secondary" disabled={presets.length === 0} onClick={() => onExportPresets()} />
+        <input ref={fileInputRef} type="file" accept=".json,application/json" onChange={handleFileChange} style={{ display: 'none' }} />
+      </div>
+    </div>
+  );
+};
+
+export default PresetPanel;
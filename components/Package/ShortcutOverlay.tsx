@@ -0,0 +1,89 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import React from 'react';
+import { motion } from 'framer-motion';
+import { useTheme } from '../../Theme.tsx';
+import { KeyboardShortcut } from '../../types/index.tsx';
+
+interface ShortcutOverlayProps {
+  shortcuts: KeyboardShortcut[];
+  onClose: () => void;
+}
+
+/**
+ * ⌨️ Shortcut Overlay
+ * The "?" cheat sheet: every keyboard binding over a dimmed scene. Clicking anywhere closes it.
+ * Like the windows, it's mounted and unmounted by AnimatePresence in the parent.
+ */
+const ShortcutOverlay: React.FC<ShortcutOverlayProps> = ({ shortcuts, onClose }) => {
+  const { theme } = useTheme();
+  const { tag, ...keyTextStyle } = theme.Type.Expressive.Data;
+
+  const cardStyle: React.CSSProperties = {
+    width: '400px',
+    maxHeight: '80vh',
+    overflowY: 'auto',
+    padding: theme.spacing['Space.L'],
+    backgroundColor: `${theme.Color.Base.Surface[1]}dd`,
+    backdropFilter: 'blur(20px)',
+    borderRadius: theme.radius['Radius.L'],
+    boxShadow: theme.effects['Effect.Shadow.Drop.3'],
+    border: `1px solid ${theme.Color.Base.Surface[3]}`,
+    display: 'flex',
+    flexDirection: 'column',
+    gap: theme.spacing['Space.S'],
+  };
+
+  const keyStyle: React.CSSProperties = {
+    ...keyTextStyle,
+    fontSize: '12px',
+    flexShrink: 0,
+    minWidth: '120px',
+    padding: `2px ${theme.spacing['Space.S']}`,
+    borderRadius: theme.radius['Radius.S'],
+    border: `1px solid ${theme.Color.Base.Surface[3]}`,
+    backgroundColor: theme.Color.Base.Surface[2],
+    color: theme.Color.Base.Content[1],
+    textAlign: 'center',
+  };
+
+  return (
+    <motion.div
+      style={{
+        position: 'absolute',
+        inset: 0,
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        backgroundColor: 'rgba(0, 0, 0, 0.4)',
+        zIndex: 2000, // Above the windows and the dock
+      }}
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      onClick={onClose}
+    >
+      <motion.div
+        style={cardStyle}
+        initial={{ scale: 0.95 }}
+        animate={{ scale: 1 }}
+        exit={{ scale: 0.95 }}
+        transition={{ type: 'spring', damping: 28, stiffness: 320 }}
+      >
+        <span style={{ ...theme.Type.Readable.Label.M, color: theme.Color.Base.Content[1], letterSpacing: '0.05em', marginBottom: theme.spacing['Space.S'] }}>
+          KEYBOARD SHORTCUTS
+        </span>
+        {shortcuts.map(shortcut => (
+          <div key={shortcut.label} style={{ display: 'flex', alignItems: 'center', gap: theme.spacing['Space.M'] }}>
+            <span style={keyStyle}>{shortcut.label}</span>
+            <span style={{ ...theme.Type.Readable.Body.M, color: theme.Color.Base.Content[2] }}>{shortcut.description}</span>
+          </div>
+        ))}
+      </motion.div>
+    </motion.div>
+  );
+};
+
+export default ShortcutOverlay;
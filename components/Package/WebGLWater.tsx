@@ -2,12 +2,18 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
  */
-import React, { useRef, useEffect, useMemo } from 'react';
+import React, { useRef, useEffect, useMemo, useState } from 'react';
 import * as THREE from 'three';
 import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js';
 import { Sky } from 'three/examples/jsm/objects/Sky.js';
 import { useTheme } from '../../Theme.tsx';
-import { CausticsGenerator } from './CausticsGenerator.tsx';
+import { CausticsGenerator, CAUSTICS_MAP_SCALE } from './CausticsGenerator.tsx';
+import { FloorMap, getBuiltInFloorMap, createFloorMap, disposeFloorMap, sampleFloorMap } from './FloorMap.tsx';
+import { PoolMask, EDGE_DISTANCE_RANGE, getBuiltInPoolMask, loadImage, createPoolMask, disposePoolMask, createPoolGeometry, isPoolWater, isWaterAt, fitsInPool, nearestOpenSpot } from './PoolMask.tsx';
+import { DEFAULT_SCENE_CONFIG } from '../../utils/sceneConfig.tsx';
+import { SimulationConfig, OpticsConfig, PoolConfig, BrushConfig, BrushShape, TouchCameraGesture, BoundaryMode, GridResolution, WaterSceneApi } from '../../types/index.tsx';
+
+export type { WaterSceneApi } from '../../types/index.tsx';
 
 interface WebGLWaterProps {
   lightPosition: { x: number; y: number; z: number };
@@ -17,7 +23,16 @@ interface WebGLWaterProps {
   useCustomWaterColor: boolean;
   waterColorShallow: string;
   waterColorDeep: string;
-  sceneApiRef?: React.RefObject<any>;
+  isPaused: boolean;
+  timeScale: number;
+  simulationConfig: SimulationConfig;
+  opticsConfig: OpticsConfig;
+  poolConfig: PoolConfig;
+  brushConfig: BrushConfig;
+  touchCameraGesture: TouchCameraGesture;
+  customPoolMask: string | null; // Data URL of the uploaded outline used by the 'custom' shape
+  customFloorMap: string | null; // Data URL of the uploaded heightmap used by the 'custom' floor
+  sceneApiRef?: React.MutableRefObject<WaterSceneApi | null>;
 }
 
 // --- Shaders ---
@@ -30,68 +45,219 @@ const commonVertexShader = `
   }
 `;
 
+// Adds a whole batch of drops in one full-screen pass. Float targets can't be blended everywhere, so
+// instead of additive splats the drops come in as a uniform array and every texel sums them.
+const MAX_BATCHED_DROPS = 64;
 const dropShaderFs = `
   const float PI = 3.141592653589793;
+  const int MAX_DROPS = ${MAX_BATCHED_DROPS};
   uniform sampler2D u_texture;
-  uniform vec2 u_center;
-  uniform float u_radius;
+  uniform vec4 u_drops[MAX_DROPS]; // Center (UV), radius (world units), strength
+  uniform vec4 u_dropShapes[MAX_DROPS]; // Shape (see BRUSH_SHAPE_INDEX), falloff exponent, line direction (world units)
+  uniform int u_dropCount;
+  uniform vec2 u_poolSize; // Radii are in world units, so drops stay round in a rectangular pool
+  varying vec2 v_uv;
+
+  const float RING_CENTER = 0.7; // Where the ring's crest sits, as a fraction of the radius
+  const float LINE_THICKNESS = 0.3; // Half-width of a line, as a fraction of its half-length (the radius)
+
+  float cosineBump(float t) {
+    return 0.5 - cos(clamp(t, 0.0, 1.0) * PI) * 0.5;
+  }
+
+  // Height profile of one drop at this texel, 1 at its crest and 0 past its edge
+  float dropProfile(vec4 drop, vec4 shape) {
+    vec2 offset = (v_uv - drop.xy) * u_poolSize;
+    int kind = int(shape.x + 0.5);
+    float profile;
+    if (kind == 3) {
+      vec2 direction = shape.zw;
+      vec2 nearest = direction * clamp(dot(offset, direction), -drop.z, drop.z);
+      profile = cosineBump(1.0 - length(offset - nearest) / (drop.z * LINE_THICKNESS));
+    } else {
+      float d = length(offset) / drop.z;
+      if (kind == 1) profile = d < 1.0 ? exp(-4.0 * d * d) : 0.0;
+      else if (kind == 2) profile = cosineBump(1.0 - abs(d - RING_CENTER) / (1.0 - RING_CENTER));
+      else profile = cosineBump(1.0 - d);
+    }
+    return pow(profile, shape.y);
+  }
+
+  void main() {
+    vec4 info = texture2D(u_texture, v_uv);
+    for (int i = 0; i < MAX_DROPS; i++) {
+      if (i >= u_dropCount) break;
+      info.r += dropProfile(u_drops[i], u_dropShapes[i]) * u_drops[i].w;
+    }
+    gl_FragColor = info;
+  }
+`;
+const BRUSH_SHAPE_INDEX: Record<BrushShape, number> = { round: 0, gaussian: 1, ring: 2, line: 3 };
+
+// A drop waiting for the next batch: center in simulation UV, radius in world units.
+// Without a shape it's the classic round drop.
+interface DropImpulse {
+  x: number;
+  y: number;
+  radius: number;
+  strength: number;
+  shape?: DropShape;
+}
+
+interface DropShape {
+  kind: BrushShape;
+  falloffExponent: number; // Applied to the profile: 1 is unchanged, below 1 flattens the top
+  direction: { x: number; y: number }; // For 'line': unit vector in UV scaled by the pool size, (du * width, dv * length)
+}
+
+// Wind pushes on the surface in bands of pressure lying across its heading. The bands travel downwind,
+// so the ripples they raise run the same way, and gusts come through as brighter patches drifting with it.
+const windShaderFs = `
+  uniform sampler2D u_texture;
+  uniform sampler2D u_poolMask;
+  uniform vec2 u_poolSize;
+  uniform vec2 u_windDir; // Unit heading in world XZ
+  uniform float u_windSpeed;
+  uniform float u_gustiness;
+  uniform float u_time;
   uniform float u_strength;
   varying vec2 v_uv;
 
+  const float RIPPLE_WAVENUMBER = 25.0; // Crests about a quarter of a world unit apart
+  const float RIPPLE_DRIFT = 0.08; // How fast the bands move downwind, per unit of wind speed
+
+  float hash(vec2 p) {
+    return fract(sin(dot(p, vec2(127.1, 311.7))) * 43758.5453);
+  }
+
+  float valueNoise(vec2 p) {
+    vec2 i = floor(p);
+    vec2 f = fract(p);
+    f = f * f * (3.0 - 2.0 * f);
+    return mix(mix(hash(i), hash(i + vec2(1.0, 0.0)), f.x), mix(hash(i + vec2(0.0, 1.0)), hash(i + vec2(1.0, 1.0)), f.x), f.y);
+  }
+
   void main() {
     vec4 info = texture2D(u_texture, v_uv);
-    float drop = max(0.0, 1.0 - length(u_center - v_uv) / u_radius);
-    drop = 0.5 - cos(drop * PI) * 0.5;
-    info.r += drop * u_strength;
+    if (texture2D(u_poolMask, v_uv).r < 0.5) {
+      gl_FragColor = info;
+      return;
+    }
+    vec2 p = vec2((v_uv.x - 0.5) * u_poolSize.x, (0.5 - v_uv.y) * u_poolSize.y);
+    float along = dot(p, u_windDir);
+    float across = dot(p, vec2(-u_windDir.y, u_windDir.x));
+    float travelled = u_time * u_windSpeed * RIPPLE_DRIFT;
+
+    // Two sets of bands a little apart in angle and scale, with wobbly crests so they never look ruled
+    float wobble = valueNoise(vec2(along - travelled, across) * 3.0) * 2.0;
+    float ripple = 0.6 * sin(RIPPLE_WAVENUMBER * (along - travelled) + wobble)
+                 + 0.4 * sin(RIPPLE_WAVENUMBER * 1.6 * (along * 0.94 + across * 0.34 - travelled) + wobble);
+
+    // Gusts: low-frequency patches carried downwind. Gustiness 0 keeps the wind even everywhere.
+    float gust = valueNoise((p - u_windDir * travelled * 4.0) * 1.2 + vec2(0.0, u_time * 0.1));
+    float envelope = mix(1.0, gust * gust * 3.0, u_gustiness);
+
+    info.g += ripple * envelope * u_strength;
     gl_FragColor = info;
   }
 `;
+const WIND_FORCE = 0.00003; // Push per step at a wind speed of 1; it grows with the square of the speed
 
 const updateShaderFs = `
   uniform sampler2D u_texture;
   uniform vec2 u_delta;
+  uniform float u_waveSpeed;
+  uniform float u_damping;
+  uniform int u_boundaryMode; // 0 = reflective, 1 = absorbing, 2 = periodic
+  uniform float u_spongeWidth;
+  uniform sampler2D u_poolMask; // Pool outline: water where red >= 0.5
+  uniform sampler2D u_edgeDistance; // Distance to the nearest wall, red 1 = EDGE_DISTANCE_RANGE
+  uniform sampler2D u_floorMap; // Floor relief: red 0 is full depth, 1 is raised by u_floorRelief
+  uniform float u_floorRelief;
   varying vec2 v_uv;
 
+  float neighborHeight(vec2 uv, float height) {
+    // Periodic: waves leaving one side come back in on the other.
+    // Reflective/absorbing: clamp to the edge texel, which acts as a solid wall.
+    uv = u_boundaryMode == 2 ? fract(uv) : clamp(uv, 0.5 * u_delta, 1.0 - 0.5 * u_delta);
+    // Ground inside the outline mirrors this cell's height back, which makes it a reflective wall.
+    if (texture2D(u_poolMask, uv).r < 0.5) return height;
+    return texture2D(u_texture, uv).r;
+  }
+
   void main() {
     vec4 info = texture2D(u_texture, v_uv);
+    // Cells outside the pool stay flat and still
+    if (texture2D(u_poolMask, v_uv).r < 0.5) {
+      gl_FragColor = vec4(0.0);
+      return;
+    }
     vec2 dx = vec2(u_delta.x, 0.0);
     vec2 dy = vec2(0.0, u_delta.y);
     float average = (
-      texture2D(u_texture, v_uv - dx).r +
-      texture2D(u_texture, v_uv + dx).r +
-      texture2D(u_texture, v_uv - dy).r +
-      texture2D(u_texture, v_uv + dy).r
+      neighborHeight(v_uv - dx, info.r) +
+      neighborHeight(v_uv + dx, info.r) +
+      neighborHeight(v_uv - dy, info.r) +
+      neighborHeight(v_uv + dy, info.r)
     ) * 0.25;
-    info.g += (average - info.r) * 2.0;
-    info.g *= 0.995;
+    // Shallow-water waves travel at sqrt(g * depth), so the coefficient (a squared speed) scales with
+    // the local depth. Over a raised floor they slow down, bend toward the shallows and steepen.
+    float localDepth = 1.0 - u_floorRelief * texture2D(u_floorMap, v_uv).r;
+    info.g += (average - info.r) * u_waveSpeed * localDepth;
+    info.g *= u_damping;
+
+    // Absorbing: a sponge border soaks up waves before they can bounce off the walls, whatever the outline.
+    if (u_boundaryMode == 1) {
+      float edge = texture2D(u_edgeDistance, v_uv).r * ${EDGE_DISTANCE_RANGE.toFixed(3)};
+      float sponge = 1.0 - smoothstep(0.0, u_spongeWidth, edge);
+      float absorb = sponge * sponge * 0.15;
+      info.g *= 1.0 - absorb;
+      info.r *= 1.0 - absorb;
+    }
+
     info.r += info.g;
     gl_FragColor = info;
   }
 `;
 
+const BOUNDARY_MODE_INDEX: Record<BoundaryMode, number> = { reflective: 0, absorbing: 1, periodic: 2 };
+const SPONGE_WIDTH = 0.12; // Width of the absorbing border, as a fraction of the pool
+
 const normalShaderFs = `
   uniform sampler2D u_texture;
   uniform vec2 u_delta;
+  uniform vec2 u_cellSize; // Horizontal run between neighbouring texels (half the world size, as in the original demo)
   varying vec2 v_uv;
 
   void main() {
     vec4 info = texture2D(u_texture, v_uv);
-    vec3 dx = vec3(u_delta.x, texture2D(u_texture, v_uv + vec2(u_delta.x, 0.0)).r - info.r, 0.0);
-    vec3 dy = vec3(0.0, texture2D(u_texture, v_uv + vec2(0.0, u_delta.y)).r - info.r, u_delta.y);
+    vec3 dx = vec3(u_cellSize.x, texture2D(u_texture, v_uv + vec2(u_delta.x, 0.0)).r - info.r, 0.0);
+    vec3 dy = vec3(0.0, texture2D(u_texture, v_uv + vec2(0.0, u_delta.y)).r - info.r, u_cellSize.y);
     info.ba = normalize(cross(dy, dx)).xz;
     gl_FragColor = info;
   }
 `;
 
+const resampleShaderFs = `
+  uniform sampler2D u_texture;
+  varying vec2 v_uv;
+
+  void main() {
+    // Linear filtering does the resampling; heights and velocities carry over as-is.
+    gl_FragColor = texture2D(u_texture, v_uv);
+  }
+`;
+
 const sphereShaderFs = `
   uniform sampler2D u_texture;
   uniform vec3 u_oldCenter;
   uniform vec3 u_newCenter;
   uniform float u_radius;
+  uniform vec2 u_poolSize;
   varying vec2 v_uv;
 
   float volumeInSphere(vec3 center) {
-    vec3 worldPos = vec3(v_uv.x * 2.0 - 1.0, 0.0, v_uv.y * 2.0 - 1.0);
+    vec3 worldPos = vec3((v_uv.x - 0.5) * u_poolSize.x, 0.0, (v_uv.y - 0.5) * u_poolSize.y);
     vec2 to_center_2d = worldPos.xz - center.xz;
     float t = length(to_center_2d) / u_radius;
     float dy = exp(-pow(t * 1.5, 6.0));
@@ -139,19 +305,29 @@ const waterFragmentShader = `
   uniform vec3 u_cameraPos;
   uniform vec3 u_sphereCenter;
   uniform float u_sphereRadius;
-  uniform bool u_useCustomColor;
-  uniform vec3 u_shallowColor;
-  uniform vec3 u_deepColor;
+  uniform vec3 u_absorption; // Per-channel Beer-Lambert coefficients, per world unit of water
+  uniform vec3 u_scatterColor; // What very deep water fades to
+  uniform float u_ior;
+  uniform float u_fresnelStrength;
+  uniform float u_underwater;
+  uniform vec3 u_fogColor;
+  uniform float u_fogNear;
+  uniform float u_fogFar;
+  uniform vec2 u_poolSize; // Width (X) and length (Z)
+  uniform float u_poolDepth; // Water depth: the floor sits at -u_poolDepth
+  uniform float u_rimHeight; // How far the walls rise above the resting surface
+  uniform sampler2D u_poolMask; // Pool outline over the width and length: water where red >= 0.5
+  uniform sampler2D u_floorMap; // Floor relief over the same area: red 0 is full depth, 1 is raised by u_floorRelief
+  uniform float u_floorRelief;
 
   varying vec2 v_uv;
   varying vec3 v_worldPos;
   varying vec4 v_reflectionUv;
 
   const float IOR_AIR = 1.0;
-  const float IOR_WATER = 1.333;
-  const vec3 abovewaterColor = vec3(0.25, 1.0, 1.25);
-  const float poolSize = 2.0;
-  const float poolHeight = 1.0;
+  const float SURFACE_SHADOW_LEVEL = 0.7; // Brightness the surface keeps inside the sphere's shadow
+  const int OUTLINE_STEPS = 24; // Samples along a ray when looking for a shaped wall or raised floor
+  const int OUTLINE_REFINE_STEPS = 5;
 
   vec2 intersectCube(vec3 origin, vec3 ray, vec3 cubeMin, vec3 cubeMax) {
     vec3 tMin = (cubeMin - origin) / ray;
@@ -176,13 +352,69 @@ const waterFragmentShader = `
     return 1.0e6;
   }
 
+  vec2 poolUv(vec3 point) {
+    return vec2(point.x / u_poolSize.x + 0.5, 0.5 - point.z / u_poolSize.y);
+  }
+
+  float poolMaskAt(vec3 point) {
+    return texture2D(u_poolMask, poolUv(point)).r;
+  }
+
+  // Height of the floor under a point; -u_poolDepth where the floor map is black.
+  float floorHeightAt(vec3 point) {
+    return -u_poolDepth * (1.0 - u_floorRelief * texture2D(u_floorMap, poolUv(point)).r);
+  }
+
+  bool isInsideSolid(vec3 point) {
+    return poolMaskAt(point) < 0.5 || point.y < floorHeightAt(point);
+  }
+
+  // How far a ray travels before it runs into a wall of the pool outline or the raised floor, up to tMax.
+  // The box around the pool can't see either, so they're stepped through and the crossing refined by bisection.
+  float intersectSolid(vec3 origin, vec3 ray, float tMax) {
+    float tInside = 0.0;
+    for (int i = 1; i <= OUTLINE_STEPS; i++) {
+      float t = tMax * float(i) / float(OUTLINE_STEPS);
+      if (isInsideSolid(origin + ray * t)) {
+        for (int j = 0; j < OUTLINE_REFINE_STEPS; j++) {
+          float tMid = 0.5 * (tInside + t);
+          if (isInsideSolid(origin + ray * tMid)) t = tMid;
+          else tInside = tMid;
+        }
+        return t;
+      }
+      tInside = t;
+    }
+    return tMax;
+  }
+
+  // Exact Fresnel reflectance for unpolarized light passing from index etaI into index etaT.
+  // Past the critical angle everything is reflected (total internal reflection).
+  float fresnelReflectance(float cosI, float etaI, float etaT) {
+    float sinT2 = (etaI / etaT) * (etaI / etaT) * (1.0 - cosI * cosI);
+    if (sinT2 >= 1.0) return 1.0;
+    float cosT = sqrt(1.0 - sinT2);
+    float rs = (etaI * cosI - etaT * cosT) / (etaI * cosI + etaT * cosT);
+    float rp = (etaT * cosI - etaI * cosT) / (etaT * cosI + etaI * cosT);
+    return 0.5 * (rs * rs + rp * rp);
+  }
+
+  // 0 where the sphere blocks the sun from this point, 1 in full light, with a soft edge.
+  float getSphereShadow(vec3 point) {
+    vec3 toSphere = u_sphereCenter - point;
+    float along = dot(toSphere, u_lightDir);
+    if (along <= 0.0) return 1.0; // The sphere is behind the point, away from the sun
+    float missDistance = length(toSphere - u_lightDir * along);
+    return smoothstep(u_sphereRadius * 0.8, u_sphereRadius * 1.2, missDistance);
+  }
+
   vec3 getSphereColor(vec3 point) {
     vec3 color = vec3(1.0);
     
     // Ambient occlusion with walls (softened)
-    color *= 1.0 - 0.5 / pow((poolSize / 2.0 + u_sphereRadius - abs(point.x)) / u_sphereRadius, 3.0);
-    color *= 1.0 - 0.5 / pow((poolSize / 2.0 + u_sphereRadius - abs(point.z)) / u_sphereRadius, 3.0);
-    color *= 1.0 - 0.5 / pow((point.y + poolHeight + u_sphereRadius) / u_sphereRadius, 3.0);
+    color *= 1.0 - 0.5 / pow((u_poolSize.x / 2.0 + u_sphereRadius - abs(point.x)) / u_sphereRadius, 3.0);
+    color *= 1.0 - 0.5 / pow((u_poolSize.y / 2.0 + u_sphereRadius - abs(point.z)) / u_sphereRadius, 3.0);
+    color *= 1.0 - 0.5 / pow((point.y - floorHeightAt(point) + u_sphereRadius) / u_sphereRadius, 3.0);
 
     // Diffuse lighting
     vec3 sphereNormal = normalize(point - u_sphereCenter);
@@ -195,10 +427,24 @@ const waterFragmentShader = `
   vec3 getWallColor(vec3 point) {
     vec3 wallColor;
     vec3 normal;
-    if (point.y < -poolHeight + 0.001) {
+    // Shaped walls face up the mask's slope, toward the water
+    float e = 0.02;
+    vec2 maskSlope = vec2(
+      poolMaskAt(point + vec3(e, 0.0, 0.0)) - poolMaskAt(point - vec3(e, 0.0, 0.0)),
+      poolMaskAt(point + vec3(0.0, 0.0, e)) - poolMaskAt(point - vec3(0.0, 0.0, e))
+    );
+    if (point.y < floorHeightAt(point) + 0.001) {
         wallColor = texture2D(u_tiles, point.xz * 0.5 + 0.5).rgb;
-        normal = vec3(0.0, 1.0, 0.0);
-    } else if (abs(point.x) > (poolSize / 2.0) - 0.001) {
+        // A raised floor tilts up its slope
+        normal = normalize(vec3(
+          floorHeightAt(point - vec3(e, 0.0, 0.0)) - floorHeightAt(point + vec3(e, 0.0, 0.0)),
+          2.0 * e,
+          floorHeightAt(point - vec3(0.0, 0.0, e)) - floorHeightAt(point + vec3(0.0, 0.0, e))
+        ));
+    } else if (length(maskSlope) > 0.01) {
+        normal = normalize(vec3(maskSlope.x, 0.0, maskSlope.y));
+        wallColor = texture2D(u_tiles, (abs(normal.x) > abs(normal.z) ? point.zy : point.xy) * 0.5 + 0.5).rgb;
+    } else if (abs(point.x) > (u_poolSize.x / 2.0) - 0.001) {
         wallColor = texture2D(u_tiles, point.yz * 0.5 + 0.5).rgb;
         normal = vec3(-sign(point.x), 0.0, 0.0);
     } else {
@@ -213,28 +459,45 @@ const waterFragmentShader = `
     return wallColor * light_level;
   }
 
-  vec3 getRefractedColor(vec3 origin, vec3 ray, vec3 waterColor) {
+  // Colors whatever a ray from the surface hits. Rays heading down travel through water on the way,
+  // and rays heading up still see the walls where they stand above the water line.
+  vec3 getRefractedColor(vec3 origin, vec3 ray) {
     vec3 color;
     float sphere_t = intersectSphere(origin, ray, u_sphereCenter, u_sphereRadius);
     
-    vec3 poolMin = vec3(-poolSize / 2.0, -poolHeight, -poolSize / 2.0);
-    vec3 poolMax = vec3(poolSize / 2.0, 10.0, poolSize / 2.0);
+    vec3 poolMin = vec3(-u_poolSize.x / 2.0, -u_poolDepth, -u_poolSize.y / 2.0);
+    vec3 poolMax = vec3(u_poolSize.x / 2.0, 10.0, u_poolSize.y / 2.0);
     vec2 pool_ts = intersectCube(origin, ray, poolMin, poolMax);
 
-    if (sphere_t < pool_ts.y) {
+    // Rays heading up only meet walls below the rim
+    float wall_t = pool_ts.y;
+    if (ray.y > 0.0) wall_t = min(wall_t, max(0.0, (u_rimHeight - origin.y) / ray.y));
+    wall_t = intersectSolid(origin, ray, wall_t);
+    vec3 wallHit = origin + ray * wall_t;
+    bool hitsWall = ray.y < 0.0 || wallHit.y < u_rimHeight - 0.001;
+
+    if (sphere_t < (hitsWall ? wall_t : pool_ts.y)) {
       color = getSphereColor(origin + ray * sphere_t);
-    } else if (ray.y < 0.0) {
-      color = getWallColor(origin + ray * pool_ts.y);
+    } else if (hitsWall) {
+      color = getWallColor(wallHit);
     } else {
       color = textureCube(u_skybox, ray).rgb;
       color += u_lightColor * pow(max(0.0, dot(u_lightDir, ray)), 1000.0) * u_specularIntensity;
     }
     
-    if (ray.y < 0.0) color *= waterColor;
+    if (ray.y < 0.0) {
+      // Beer-Lambert: each channel dies away exponentially with the distance travelled,
+      // and light scattered back toward the viewer fills in with the scatter color.
+      vec3 transmittance = exp(-u_absorption * min(sphere_t, wall_t));
+      color = color * transmittance + u_scatterColor * (1.0 - transmittance);
+    }
     return color;
   }
 
   void main() {
+    // The surface mesh covers the pool's whole bounding box; only the part inside the outline is water
+    if (texture2D(u_poolMask, v_uv).r < 0.5) discard;
+
     vec2 coord = v_uv;
     vec4 info = texture2D(u_waterTexture, coord);
     
@@ -250,27 +513,46 @@ const waterFragmentShader = `
     vec3 worldNormal = normalize(vec3(simNormal.x, simNormal.z, -simNormal.y));
     
     vec3 viewDir = normalize(v_worldPos - u_cameraPos);
-    
-    vec3 refractedRay = refract(viewDir, worldNormal, IOR_AIR / IOR_WATER);
-    float fresnel = 0.3; // Lowered for more cinematic (less reflective) water
-    
-    // Reflection distortion
-    float distortionStrength = 0.04;
-    vec2 distortion = worldNormal.xz * distortionStrength;
-    
-    vec2 distortedUv = v_reflectionUv.xy / v_reflectionUv.w;
-    distortedUv += distortion;
+    vec3 color;
 
-    vec3 reflectedColor = texture2D(u_reflectionTexture, distortedUv).rgb;
-    
-    vec3 waterTintColor = abovewaterColor;
-    if (u_useCustomColor) {
-      float mixFactor = smoothstep(-0.1, 0.1, v_worldPos.y);
-      waterTintColor = mix(u_deepColor, u_shallowColor, mixFactor);
+    if (gl_FrontFacing) {
+      vec3 refractedRay = refract(viewDir, worldNormal, IOR_AIR / u_ior);
+      float cosI = max(dot(worldNormal, -viewDir), 0.0);
+      float fresnel = clamp(fresnelReflectance(cosI, IOR_AIR, u_ior) * u_fresnelStrength, 0.0, 1.0);
+      
+      // Reflection distortion
+      float distortionStrength = 0.04;
+      vec2 distortion = worldNormal.xz * distortionStrength;
+      
+      vec2 distortedUv = v_reflectionUv.xy / v_reflectionUv.w;
+      distortedUv += distortion;
+
+      vec3 reflectedColor = texture2D(u_reflectionTexture, distortedUv).rgb;
+      
+      vec3 refractedColor = getRefractedColor(v_worldPos, refractedRay);
+      
+      color = mix(refractedColor, reflectedColor, fresnel);
+      // A ball lifted out of the water shades the surface beneath it
+      color *= mix(SURFACE_SHADOW_LEVEL, 1.0, getSphereShadow(v_worldPos));
+    } else {
+      // Seen from below, as in the original demo's underwater shader. Outside Snell's window
+      // refract() returns zero and the surface becomes a mirror of the pool (total internal reflection).
+      vec3 normal = -worldNormal;
+      vec3 reflectedRay = reflect(viewDir, normal);
+      vec3 refractedRay = refract(viewDir, normal, u_ior / IOR_AIR);
+      float cosI = max(dot(normal, -viewDir), 0.0);
+      float fresnel = clamp(fresnelReflectance(cosI, u_ior, IOR_AIR) * u_fresnelStrength, 0.0, 1.0);
+
+      color = getRefractedColor(v_worldPos, reflectedRay);
+      if (dot(refractedRay, refractedRay) > 0.0) {
+        vec3 refractedColor = getRefractedColor(v_worldPos, refractedRay) * vec3(0.8, 1.0, 1.1);
+        color = mix(color, refractedColor, 1.0 - fresnel);
+      }
     }
-    vec3 refractedColor = getRefractedColor(v_worldPos, refractedRay, waterTintColor);
-    
-    vec3 color = mix(refractedColor, reflectedColor, fresnel);
+
+    // Underwater haze, matching the scene fog applied to the pool and sphere
+    float fogAmount = u_underwater * smoothstep(u_fogNear, u_fogFar, length(v_worldPos - u_cameraPos));
+    color = mix(color, u_fogColor, fogAmount);
     
     gl_FragColor = vec4(color, 1.0);
   }
@@ -314,6 +596,98 @@ const createTileTexture = () => {
     return texture;
 };
 
+// --- Pool Geometry ---
+// The resting water surface is always y = 0. Filling less than the full depth moves the floor up
+// and leaves the rest of the wall standing above the water. The mask shapes the outline inside the width and length,
+// and the floor map raises parts of the floor toward the surface.
+const getPoolLayout = ({ poolWidth, poolLength, poolDepth, fillLevel, floorRelief }: PoolConfig, mask: PoolMask, floor: FloorMap) => {
+    const waterDepth = poolDepth * fillLevel;
+    return {
+        width: poolWidth,
+        length: poolLength,
+        halfWidth: poolWidth / 2,
+        halfLength: poolLength / 2,
+        waterDepth,
+        rimHeight: poolDepth - waterDepth,
+        mask,
+        floor,
+        floorRelief,
+    };
+};
+type PoolLayout = ReturnType<typeof getPoolLayout>;
+
+// Floor height at a point in simulation UV space, matching floorHeightAt() in the water shader.
+const floorHeightAtUv = (layout: PoolLayout, u: number, v: number) =>
+    -layout.waterDepth * (1 - layout.floorRelief * sampleFloorMap(layout.floor, u, v));
+
+const floorHeightAt = (layout: PoolLayout, x: number, z: number) =>
+    floorHeightAtUv(layout, x / layout.width + 0.5, 0.5 - z / layout.length);
+
+// The grid resolution applies to the pool's longer side; the shorter side gets proportionally fewer
+// cells so every cell stays square.
+const getGridSize = (resolution: GridResolution, width: number, length: number) => {
+    const longest = Math.max(width, length);
+    return {
+        x: Math.max(1, Math.round(resolution * width / longest)),
+        y: Math.max(1, Math.round(resolution * length / longest)),
+    };
+};
+
+// The surface mesh gets two vertices per simulation cell (up to 512 along the longer side) so waves and caustics stay smooth.
+const createWaterGeometry = (resolution: GridResolution, width: number, length: number) => {
+    const grid = getGridSize(resolution, width, length);
+    const verticesPerCell = Math.min(2, 512 / Math.max(grid.x, grid.y));
+    return new THREE.PlaneGeometry(width, length, Math.round(grid.x * verticesPerCell), Math.round(grid.y * verticesPerCell));
+};
+
+// A flat floor keeps the cheap merged mesh; a raised one is displaced per mask cell.
+const getFloorBottom = (layout: PoolLayout, offset: number) =>
+    layout.floor.shape === 'flat' || layout.floorRelief === 0
+        ? -layout.waterDepth + offset
+        : (u: number, v: number) => floorHeightAtUv(layout, u, v) + offset;
+
+// Tiled floor and walls, from the floor up to the rim.
+const createPoolShellGeometry = (layout: PoolLayout) =>
+    createPoolGeometry(layout.mask, layout.width, layout.length, getFloorBottom(layout, 0), layout.rimHeight);
+
+// The water body, pulled in a hair from the tiles so the two don't z-fight.
+const createWaterVolumeGeometry = (layout: PoolLayout) => {
+    const inset = 0.002;
+    return createPoolGeometry(layout.mask, layout.width, layout.length, getFloorBottom(layout, inset), 0, inset);
+};
+
+// Picks a random spot in the water, keeping clear of the walls. Gives up on a tiny outline after a few tries.
+const randomPointInPool = (layout: PoolLayout, target: THREE.Vector3) => {
+    for (let attempt = 0; attempt < 20; attempt++) {
+        target.x = (Math.random() - 0.5) * (layout.width - 0.1);
+        target.z = (Math.random() - 0.5) * (layout.length - 0.1);
+        if (isWaterAt(layout.mask, layout.width, layout.length, target.x, target.z)) break;
+    }
+    target.y = floorHeightAt(layout, target.x, target.z) * (1 - Math.random());
+    return target;
+};
+
+// Keeps a ball of the given radius inside the walls and above the floor. A spot where it doesn't fit
+// the outline falls back to `previous`, or failing that to the nearest spot where it does.
+const clampSphereToPool = (position: THREE.Vector3, layout: PoolLayout, radius: number, previous?: THREE.Vector3) => {
+    const { mask, width, length } = layout;
+    const limitX = layout.halfWidth - radius;
+    const limitZ = layout.halfLength - radius;
+    position.x = Math.max(-limitX, Math.min(limitX, position.x));
+    position.z = Math.max(-limitZ, Math.min(limitZ, position.z));
+    if (!fitsInPool(mask, width, length, position.x, position.z, radius)) {
+        const spot = previous && fitsInPool(mask, width, length, previous.x, previous.z, radius)
+            ? previous
+            : nearestOpenSpot(mask, width, length, position.x, position.z, radius);
+        if (spot) {
+            position.x = spot.x;
+            position.z = spot.z;
+        }
+    }
+    position.y = Math.max(floorHeightAt(layout, position.x, position.z) + radius, position.y);
+    return position;
+};
+
 const createBubbleTexture = () => {
     const size = 64;
     const canvas = document.createElement('canvas');
@@ -330,28 +704,146 @@ const createBubbleTexture = () => {
     return new THREE.CanvasTexture(canvas);
 };
 
+// --- Fixed Timestep ---
+// The solver's wave speed and damping are tuned per step, so we always step at 60 Hz
+// no matter how fast the monitor refreshes.
+export const FIXED_TIMESTEP = 1 / 60; // Physical seconds per solver step
+export const MAX_SUBSTEPS = 8; // Most solver steps we'll run in one rendered frame
+const MAX_FRAME_DELTA = 0.25; // Longest frame gap (seconds) we'll try to catch up on
+
+// --- Sphere Physics ---
+const SPHERE_GRAVITY = new THREE.Vector3(0, -4, 0); // Same pull as the original demo
+const SPHERE_BOUNCE = 0.7; // Fraction of speed kept after hitting the floor or a wall
+
+// --- Rain ---
+const SPLASH_CAPACITY = 400; // Most splash droplets in the air at once
+const SPLASH_DROPLETS = 3; // Droplets thrown up by each raindrop
+const SPLASH_GRAVITY = 6;
+
+// How big a raindrop is relative to the typical one. Log-normal, so most drops are near typical and a few are
+// much bigger or smaller; variation 0 makes them all the same.
+const sampleRainDropSize = (variation: number) => {
+    const gaussian = Math.sqrt(-2 * Math.log(1 - Math.random())) * Math.cos(2 * Math.PI * Math.random());
+    return THREE.MathUtils.clamp(Math.exp(gaussian * variation * 0.6), 0.3, 3);
+};
+
+// --- Brush ---
+const TRAIL_RADIUS_SCALE = 2 / 3; // Trails left while moving use a smaller brush than a click
+// Trail strength ramps with pointer speed, as multiples of the brush strength: a base, so much more
+// per UV unit travelled since the last event, and a cap. Pressing makes stronger trails than hovering.
+const DRAG_TRAIL = { base: 1, perDistance: 20, max: 2.5 };
+const HOVER_TRAIL = { base: 0.5, perDistance: 15, max: 1.5 };
+
+// One dab of the brush at (u, v). `invert` flips the polarity, and `heading` (a UV delta) is the way
+// the stroke is going, which the line shape lies along; without one it lies across the pool's width.
+const createBrushDrop = (brush: BrushConfig, layout: PoolLayout, u: number, v: number, radius: number, strength: number, invert: boolean, heading?: THREE.Vector2): DropImpulse => {
+    const pull = (brush.brushPolarity === 'pull') !== invert;
+    const direction = heading ? new THREE.Vector2(heading.x * layout.width, heading.y * layout.length) : new THREE.Vector2();
+    if (direction.lengthSq() === 0) direction.set(1, 0);
+    direction.normalize();
+    return {
+        x: u,
+        y: v,
+        radius,
+        strength: pull ? strength : -strength,
+        shape: { kind: brush.brushShape, falloffExponent: 2 ** (2 - 4 * brush.brushFalloff), direction },
+    };
+};
+
+// --- Touch ---
+// How many fingers make the camera gesture, and what OrbitControls does with one and two fingers.
+// A null slot leaves those fingers to paint.
+const TOUCH_CAMERA: Record<TouchCameraGesture, { fingers: number; touches: { ONE: THREE.TOUCH | null; TWO: THREE.TOUCH | null } }> = {
+    'two-finger': { fingers: 2, touches: { ONE: null, TWO: THREE.TOUCH.DOLLY_ROTATE } },
+    'one-finger': { fingers: 1, touches: { ONE: THREE.TOUCH.ROTATE, TWO: THREE.TOUCH.DOLLY_PAN } },
+    none: { fingers: Infinity, touches: { ONE: null, TWO: null } },
+};
+
+// --- Underwater View ---
+const WATERLINE_BLEND = 0.04; // Height band around y=0 over which the camera fades between above and below water
+const SURFACE_FOG = { near: 1, far: 15 };
+const UNDERWATER_FOG = { near: 0, farShallow: 4, farDeep: 2 }; // Visibility shrinks as the camera goes deeper
+const UNDERWATER_FOG_SHALLOW = new THREE.Color(0x2a8fa6);
+const UNDERWATER_FOG_DEEP = new THREE.Color(0x08324a);
+
+// --- Light Absorption ---
+// The water colors are an artist-friendly front end to Beer-Lambert absorption: the shallow color is how much
+// of each channel survives this much water, and the deep color is the scattered light that endless water fades to.
+// Without a custom color the default pair is used, so the path length through the water always shows.
+const ABSORPTION_REFERENCE_DEPTH = 1.0; // World units (a full pool depth)
+const MIN_TRANSMITTANCE = 0.001; // Keeps fully saturated channels from asking for infinite absorption
+
+const absorptionFromColor = (color: THREE.Color, target: THREE.Vector3) => target.set(
+  -Math.log(Math.max(color.r, MIN_TRANSMITTANCE)),
+  -Math.log(Math.max(color.g, MIN_TRANSMITTANCE)),
+  -Math.log(Math.max(color.b, MIN_TRANSMITTANCE)),
+).divideScalar(ABSORPTION_REFERENCE_DEPTH);
+
 const skyPresets = {
   default: { turbidity: 10, rayleigh: 2, mieCoefficient: 0.005, mieDirectionalG: 0.8 },
   sunset: { turbidity: 20, rayleigh: 3, mieCoefficient: 0.002, mieDirectionalG: 0.95 },
   cloudy: { turbidity: 50, rayleigh: 10, mieCoefficient: 0.05, mieDirectionalG: 0.6 },
+  rainy: { turbidity: 40, rayleigh: 0.4, mieCoefficient: 0.03, mieDirectionalG: 0.3 },
   night: { turbidity: 1, rayleigh: 0.1, mieCoefficient: 0.001, mieDirectionalG: 0.7 }
 };
 
 
-const WebGLWater = ({ lightPosition, skyPreset, lightIntensity, specularIntensity, useCustomWaterColor, waterColorShallow, waterColorDeep, sceneApiRef }: WebGLWaterProps) => {
+// Uses `builtIn` until there's an uploaded image to decode, then the map made from it (freed with `dispose`
+// once replaced). An image that won't decode leaves `builtIn` in place. Pass module-level functions, since
+// a new one each render would reload the image.
+const useUploadedMap = <T,>(builtIn: T, uploadedUrl: string | null, fromImage: (image: HTMLImageElement) => T, dispose: (map: T) => void) => {
+  const [map, setMap] = useState<T>(builtIn);
+  useEffect(() => {
+    if (!uploadedUrl) {
+      setMap(builtIn);
+      return;
+    }
+    let cancelled = false;
+    let loaded: T | null = null;
+    loadImage(uploadedUrl)
+      .then(image => {
+        if (cancelled) return;
+        loaded = fromImage(image);
+        setMap(loaded);
+      })
+      .catch(() => {
+        if (!cancelled) setMap(builtIn);
+      });
+    return () => {
+      cancelled = true;
+      if (loaded) dispose(loaded);
+    };
+  }, [builtIn, uploadedUrl, fromImage, dispose]);
+  return map;
+};
+
+const WebGLWater = ({ lightPosition, skyPreset, lightIntensity, specularIntensity, useCustomWaterColor, waterColorShallow, waterColorDeep, isPaused, timeScale, simulationConfig, opticsConfig, poolConfig, brushConfig, touchCameraGesture, customPoolMask, customFloorMap, sceneApiRef }: WebGLWaterProps) => {
   const mountRef = useRef<HTMLDivElement>(null);
   const sceneObjects = useRef<any>({});
   const { theme } = useTheme();
+
+  // Live playback settings read by the animation loop (kept in a ref so the scene isn't rebuilt).
+  const playback = useRef({ isPaused, timeScale, pendingSteps: 0 });
+  const simConfig = useRef(simulationConfig);
+  const brush = useRef(brushConfig);
+  const touchGesture = useRef(touchCameraGesture);
+  // The outline and floor currently in use. Uploaded images load asynchronously, so these can lag the config briefly.
+  const poolMask = useUploadedMap(getBuiltInPoolMask(poolConfig.poolShape), poolConfig.poolShape === 'custom' ? customPoolMask : null, createPoolMask, disposePoolMask);
+  const floorMap = useUploadedMap(getBuiltInFloorMap(poolConfig.floorShape), poolConfig.floorShape === 'custom' ? customFloorMap : null, createFloorMap, disposeFloorMap);
+  // Live pool layout read by the pointer handlers, physics and fog.
+  const pool = useRef(getPoolLayout(poolConfig, poolMask, floorMap));
   
   const waterSimulation = useMemo(() => {
-    const SIZE = 128; // Performance: Reduced from 256
+    let size = getGridSize(simulationConfig.gridResolution, poolConfig.poolWidth, poolConfig.poolLength);
+    const poolSize = new THREE.Vector2(poolConfig.poolWidth, poolConfig.poolLength);
     let renderer: THREE.WebGLRenderer;
     const scene = new THREE.Scene();
     const camera = new THREE.OrthographicCamera(-1, 1, 1, -1, 0, 1);
     const plane = new THREE.PlaneGeometry(2, 2);
+    const createTarget = (x: number, y: number) => new THREE.WebGLRenderTarget(x, y, { type: THREE.FloatType });
     const targets = {
-      read: new THREE.WebGLRenderTarget(SIZE, SIZE, { type: THREE.FloatType }),
-      write: new THREE.WebGLRenderTarget(SIZE, SIZE, { type: THREE.FloatType }),
+      read: createTarget(size.x, size.y),
+      write: createTarget(size.x, size.y),
       swap: function() {
         const temp = this.read;
         this.read = this.write;
@@ -359,34 +851,108 @@ const WebGLWater = ({ lightPosition, skyPreset, lightIntensity, specularIntensit
       }
     };
 
+    const updateMat = new THREE.ShaderMaterial({
+      uniforms: {
+        u_texture: { value: null },
+        u_delta: { value: new THREE.Vector2(1 / size.x, 1 / size.y) },
+        u_waveSpeed: { value: 2.0 },
+        u_damping: { value: 0.995 },
+        u_boundaryMode: { value: BOUNDARY_MODE_INDEX.reflective },
+        u_spongeWidth: { value: SPONGE_WIDTH },
+        u_poolMask: { value: getBuiltInPoolMask('rectangle').texture },
+        u_edgeDistance: { value: getBuiltInPoolMask('rectangle').edgeDistance },
+        u_floorMap: { value: getBuiltInFloorMap('flat').texture },
+        u_floorRelief: { value: 0 },
+      },
+      vertexShader: commonVertexShader, fragmentShader: updateShaderFs,
+    });
     const dropMat = new THREE.ShaderMaterial({
-      uniforms: { u_texture: { value: null }, u_center: { value: new THREE.Vector2() }, u_radius: { value: 0.0 }, u_strength: { value: 0.0 } },
+      uniforms: {
+        u_texture: { value: null },
+        u_drops: { value: Array.from({ length: MAX_BATCHED_DROPS }, () => new THREE.Vector4()) },
+        u_dropShapes: { value: Array.from({ length: MAX_BATCHED_DROPS }, () => new THREE.Vector4()) },
+        u_dropCount: { value: 0 },
+        u_poolSize: { value: poolSize },
+      },
       vertexShader: commonVertexShader, fragmentShader: dropShaderFs,
     });
-    const updateMat = new THREE.ShaderMaterial({
-      uniforms: { u_texture: { value: null }, u_delta: { value: new THREE.Vector2(1 / SIZE, 1 / SIZE) } },
-      vertexShader: commonVertexShader, fragmentShader: updateShaderFs,
+    const windMat = new THREE.ShaderMaterial({
+      uniforms: {
+        u_texture: { value: null },
+        u_poolMask: { value: getBuiltInPoolMask('rectangle').texture },
+        u_poolSize: { value: poolSize },
+        u_windDir: { value: new THREE.Vector2(1, 0) },
+        u_windSpeed: { value: 0 },
+        u_gustiness: { value: 0 },
+        u_time: { value: 0 },
+        u_strength: { value: 0 },
+      },
+      vertexShader: commonVertexShader, fragmentShader: windShaderFs,
     });
     const normalMat = new THREE.ShaderMaterial({
-      uniforms: { u_texture: { value: null }, u_delta: { value: new THREE.Vector2(1 / SIZE, 1 / SIZE) } },
+      uniforms: { u_texture: { value: null }, u_delta: { value: new THREE.Vector2(1 / size.x, 1 / size.y) }, u_cellSize: { value: new THREE.Vector2() } },
       vertexShader: commonVertexShader, fragmentShader: normalShaderFs,
     });
+    const resampleMat = new THREE.ShaderMaterial({
+      uniforms: { u_texture: { value: null } },
+      vertexShader: commonVertexShader, fragmentShader: resampleShaderFs,
+    });
     const sphereMat = new THREE.ShaderMaterial({
-      uniforms: { u_texture: { value: null }, u_oldCenter: { value: new THREE.Vector3() }, u_newCenter: { value: new THREE.Vector3() }, u_radius: { value: 0.0 } },
+      uniforms: { u_texture: { value: null }, u_oldCenter: { value: new THREE.Vector3() }, u_newCenter: { value: new THREE.Vector3() }, u_radius: { value: 0.0 }, u_poolSize: { value: poolSize } },
       vertexShader: commonVertexShader, fragmentShader: sphereShaderFs,
     });
+    const updateCellSize = () => normalMat.uniforms.u_cellSize.value.set(poolSize.x / size.x / 2, poolSize.y / size.y / 2);
+    updateCellSize();
 
     const mesh = new THREE.Mesh(plane, updateMat);
     scene.add(mesh);
 
+    // Drops are queued rather than drawn one by one, so a fast scribble or heavy rain costs one pass
+    // per MAX_BATCHED_DROPS drops. The queue is applied just before anything reads the heights.
+    const pendingDrops: DropImpulse[] = [];
+    const flushDrops = () => {
+      for (let start = 0; start < pendingDrops.length; start += MAX_BATCHED_DROPS) {
+        const batch = pendingDrops.slice(start, start + MAX_BATCHED_DROPS);
+        batch.forEach((drop, i) => {
+          dropMat.uniforms.u_drops.value[i].set(drop.x, drop.y, drop.radius, drop.strength);
+          const shape = drop.shape;
+          dropMat.uniforms.u_dropShapes.value[i].set(
+            shape ? BRUSH_SHAPE_INDEX[shape.kind] : BRUSH_SHAPE_INDEX.round,
+            shape?.falloffExponent ?? 1,
+            shape?.direction.x ?? 1,
+            shape?.direction.y ?? 0,
+          );
+        });
+        mesh.material = dropMat;
+        dropMat.uniforms.u_dropCount.value = batch.length;
+        dropMat.uniforms.u_texture.value = targets.read.texture;
+        renderer.setRenderTarget(targets.write);
+        renderer.render(scene, camera);
+        renderer.setRenderTarget(null);
+        targets.swap();
+      }
+      pendingDrops.length = 0;
+    };
+
     return {
       init: (r: THREE.WebGLRenderer) => { renderer = r; },
       addDrop: (x: number, y: number, radius: number, strength: number) => {
-        mesh.material = dropMat;
-        dropMat.uniforms.u_center.value.set(x, y);
-        dropMat.uniforms.u_radius.value = radius;
-        dropMat.uniforms.u_strength.value = strength;
-        dropMat.uniforms.u_texture.value = targets.read.texture;
+        pendingDrops.push({ x, y, radius, strength });
+      },
+      addDrops: (drops: DropImpulse[]) => {
+        pendingDrops.push(...drops);
+      },
+      // Speed 0 is calm and skips the pass. Direction is in degrees (see SimulationConfig).
+      applyWind: (time: number, speed: number, direction: number, gustiness: number) => {
+        if (speed <= 0) return;
+        const heading = THREE.MathUtils.degToRad(direction);
+        mesh.material = windMat;
+        windMat.uniforms.u_windDir.value.set(Math.cos(heading), Math.sin(heading));
+        windMat.uniforms.u_windSpeed.value = speed;
+        windMat.uniforms.u_gustiness.value = gustiness;
+        windMat.uniforms.u_time.value = time;
+        windMat.uniforms.u_strength.value = WIND_FORCE * speed * speed;
+        windMat.uniforms.u_texture.value = targets.read.texture;
         renderer.setRenderTarget(targets.write);
         renderer.render(scene, camera);
         renderer.setRenderTarget(null);
@@ -404,6 +970,7 @@ const WebGLWater = ({ lightPosition, skyPreset, lightIntensity, specularIntensit
         targets.swap();
       },
       step: () => {
+        flushDrops();
         mesh.material = updateMat;
         updateMat.uniforms.u_texture.value = targets.read.texture;
         renderer.setRenderTarget(targets.write);
@@ -412,6 +979,7 @@ const WebGLWater = ({ lightPosition, skyPreset, lightIntensity, specularIntensit
         targets.swap();
       },
       updateNormals: () => {
+        flushDrops();
         mesh.material = normalMat;
         normalMat.uniforms.u_texture.value = targets.read.texture;
         renderer.setRenderTarget(targets.write);
@@ -419,6 +987,59 @@ const WebGLWater = ({ lightPosition, skyPreset, lightIntensity, specularIntensit
         renderer.setRenderTarget(null);
         targets.swap();
       },
+      setWaveParams: (waveSpeed: number, damping: number, boundaryMode: BoundaryMode) => {
+        updateMat.uniforms.u_waveSpeed.value = waveSpeed;
+        updateMat.uniforms.u_damping.value = damping;
+        updateMat.uniforms.u_boundaryMode.value = BOUNDARY_MODE_INDEX[boundaryMode] ?? BOUNDARY_MODE_INDEX.reflective;
+      },
+      // Stretches the simulated area over a pool of this size (world units). The grid itself changes in resize().
+      setPoolSize: (width: number, length: number) => {
+        poolSize.set(width, length);
+        updateCellSize();
+      },
+      // Cells outside the outline are held flat, and the cells around them act as walls.
+      setMask: (mask: PoolMask) => {
+        updateMat.uniforms.u_poolMask.value = mask.texture;
+        updateMat.uniforms.u_edgeDistance.value = mask.edgeDistance;
+        windMat.uniforms.u_poolMask.value = mask.texture;
+      },
+      // Waves slow down where the floor map raises the floor.
+      setFloor: (texture: THREE.Texture, relief: number) => {
+        updateMat.uniforms.u_floorMap.value = texture;
+        updateMat.uniforms.u_floorRelief.value = relief;
+      },
+      // Swaps in targets of a new size, carrying the current waves across instead of starting flat.
+      resize: (newSize: { x: number; y: number }) => {
+        if (newSize.x === size.x && newSize.y === size.y) return false;
+        if (renderer) flushDrops();
+        const newRead = createTarget(newSize.x, newSize.y);
+        const newWrite = createTarget(newSize.x, newSize.y);
+        if (renderer) {
+          mesh.material = resampleMat;
+          resampleMat.uniforms.u_texture.value = targets.read.texture;
+          renderer.setRenderTarget(newRead);
+          renderer.render(scene, camera);
+          renderer.setRenderTarget(null);
+        }
+        targets.read.dispose();
+        targets.write.dispose();
+        targets.read = newRead;
+        targets.write = newWrite;
+        size = newSize;
+        updateMat.uniforms.u_delta.value.set(1 / size.x, 1 / size.y);
+        normalMat.uniforms.u_delta.value.set(1 / size.x, 1 / size.y);
+        updateCellSize();
+        return true;
+      },
+      reset: () => {
+        pendingDrops.length = 0;
+        // The renderer's clear color is transparent black, which is flat, still water.
+        renderer.setRenderTarget(targets.read);
+        renderer.clear();
+        renderer.setRenderTarget(targets.write);
+        renderer.clear();
+        renderer.setRenderTarget(null);
+      },
       getTexture: () => targets.read.texture,
       dispose: () => {
         targets.read.dispose();
@@ -428,13 +1049,13 @@ const WebGLWater = ({ lightPosition, skyPreset, lightIntensity, specularIntensit
     };
   }, []);
   
-  const lastWaterInteractionPoint = useRef<THREE.Vector2 | null>(null);
-
   useEffect(() => {
     if (!mountRef.current) return;
     const currentMount = mountRef.current;
     const scene = new THREE.Scene();
-    scene.fog = new THREE.Fog(0x001122, 1, 15); // Initial dark blue fog
+    const surfaceFogColor = new THREE.Color(0x001122); // Initial dark blue fog
+    const fog = new THREE.Fog(surfaceFogColor.getHex(), SURFACE_FOG.near, SURFACE_FOG.far);
+    scene.fog = fog;
     const camera = new THREE.PerspectiveCamera(45, currentMount.clientWidth / currentMount.clientHeight, 0.01, 100);
     camera.position.set(2.5, 2.5, 3.5);
 
@@ -449,6 +1070,7 @@ const WebGLWater = ({ lightPosition, skyPreset, lightIntensity, specularIntensit
     const controls = new OrbitControls(camera, renderer.domElement);
     controls.enableDamping = true;
     controls.target.set(0, 0, 0);
+    controls.touches = { ...TOUCH_CAMERA[touchGesture.current].touches }; // The effect below only sees later changes
 
     const reflectionRenderTarget = new THREE.WebGLRenderTarget(256, 256, { format: THREE.RGBAFormat, type: THREE.HalfFloatType }); // Performance: Reduced from 512
     const reflector = new THREE.PerspectiveCamera();
@@ -479,8 +1101,28 @@ const WebGLWater = ({ lightPosition, skyPreset, lightIntensity, specularIntensit
 
     const tilesTexture = createTileTexture();
     
-    const waterGeo = new THREE.PlaneGeometry(2, 2, 256, 256);
-    const causticsGenerator = new CausticsGenerator(waterGeo);
+    const layout = pool.current;
+    const waterGeo = createWaterGeometry(simConfig.current.gridResolution, layout.width, layout.length);
+    const causticsGenerator = new CausticsGenerator(waterGeo, opticsConfig.causticsResolution);
+    causticsGenerator.setPool(layout.width, layout.length, layout.waterDepth);
+
+    // Shared by the water, pool and sphere shaders so one update reaches all of them
+    const opticsUniforms = {
+        u_ior: { value: opticsConfig.ior },
+        u_fresnelStrength: { value: opticsConfig.fresnelStrength },
+        u_causticsIntensity: { value: opticsConfig.causticsIntensity },
+    };
+    const poolUniforms = {
+        u_poolSize: { value: new THREE.Vector2(layout.width, layout.length) },
+        u_poolDepth: { value: layout.waterDepth },
+        u_rimHeight: { value: layout.rimHeight },
+        u_poolMask: { value: layout.mask.texture },
+        u_floorMap: { value: layout.floor.texture },
+        u_floorRelief: { value: layout.floorRelief },
+    };
+    waterSimulation.setMask(layout.mask);
+    waterSimulation.setFloor(layout.floor.texture, layout.floorRelief);
+    causticsGenerator.setFloor(layout.floor.texture, layout.floorRelief);
 
     const waterMaterial = new THREE.ShaderMaterial({
         uniforms: { 
@@ -498,6 +1140,14 @@ const WebGLWater = ({ lightPosition, skyPreset, lightIntensity, specularIntensit
             u_useCustomColor: { value: useCustomWaterColor },
             u_shallowColor: { value: new THREE.Color(waterColorShallow) },
             u_deepColor: { value: new THREE.Color(waterColorDeep) },
+            u_absorption: { value: new THREE.Vector3() },
+            u_scatterColor: { value: new THREE.Color() },
+            ...opticsUniforms,
+            ...poolUniforms,
+            u_underwater: { value: 0.0 },
+            u_fogColor: { value: new THREE.Color() },
+            u_fogNear: { value: UNDERWATER_FOG.near },
+            u_fogFar: { value: UNDERWATER_FOG.farShallow },
         },
         vertexShader: waterVertexShader, 
         fragmentShader: waterFragmentShader,
@@ -508,23 +1158,21 @@ const WebGLWater = ({ lightPosition, skyPreset, lightIntensity, specularIntensit
     sunLight.position.copy(sunPosition);
     scene.add(sunLight);
 
-    const poolSize = 2;
-    const poolHeight = 1;
     const poolMaterial = new THREE.MeshStandardMaterial({
       map: tilesTexture, envMap: textureCube, roughness: 0.1, metalness: 0.1, side: THREE.BackSide
     });
-    const poolGeo = new THREE.BoxGeometry(poolSize, poolHeight, poolSize);
-    const poolMesh = new THREE.Mesh(poolGeo, [
-      poolMaterial, poolMaterial, new THREE.MeshBasicMaterial({ transparent: true, opacity: 0, side: THREE.DoubleSide }),
-      poolMaterial, poolMaterial, poolMaterial
-    ]);
-    poolMesh.position.y = -poolHeight / 2;
+    // Open at the top: the shell is just the floor and walls of the outline
+    const poolMesh = new THREE.Mesh(createPoolShellGeometry(layout), poolMaterial);
     scene.add(poolMesh);
 
     poolMaterial.onBeforeCompile = (shader) => {
         shader.uniforms.u_causticsTexture = { value: causticsGenerator.getTexture() };
         shader.uniforms.u_waterTexture = { value: waterSimulation.getTexture() };
         shader.uniforms.u_lightDir = { value: sunPosition };
+        shader.uniforms.u_ior = opticsUniforms.u_ior;
+        shader.uniforms.u_causticsScale = { value: CAUSTICS_MAP_SCALE };
+        shader.uniforms.u_causticsIntensity = opticsUniforms.u_causticsIntensity;
+        shader.uniforms.u_poolSize = poolUniforms.u_poolSize;
         
         shader.vertexShader = `
             varying vec3 v_worldPos;
@@ -541,9 +1189,13 @@ const WebGLWater = ({ lightPosition, skyPreset, lightIntensity, specularIntensit
             uniform sampler2D u_causticsTexture;
             uniform sampler2D u_waterTexture;
             uniform vec3 u_lightDir;
+            uniform float u_ior;
+            uniform float u_causticsScale;
+            uniform float u_causticsIntensity;
+            uniform vec2 u_poolSize;
             varying vec3 v_worldPos;
             const float IOR_AIR = 1.0;
-            const float IOR_WATER = 1.333;
+            const float SPHERE_SHADOW_LEVEL = 0.55; // How much light the tiles keep in the middle of the sphere's shadow
         ` + shader.fragmentShader;
     
         shader.fragmentShader = shader.fragmentShader.replace(
@@ -551,44 +1203,38 @@ const WebGLWater = ({ lightPosition, skyPreset, lightIntensity, specularIntensit
             `
             #include <dithering_fragment>
             
-            vec2 waterUv = v_worldPos.xz * 0.5 + 0.5;
+            vec2 waterUv = v_worldPos.xz / u_poolSize + 0.5;
             waterUv.y = 1.0 - waterUv.y;
             float waterHeight = texture2D(u_waterTexture, waterUv).r;
     
             if (v_worldPos.y < waterHeight) {
-                vec3 refractedLight = refract(-u_lightDir, vec3(0.0, 1.0, 0.0), IOR_AIR / IOR_WATER);
-                vec2 causticsUv = v_worldPos.xz - v_worldPos.y * refractedLight.xz / refractedLight.y;
+                vec3 refractedLight = refract(-u_lightDir, vec3(0.0, 1.0, 0.0), IOR_AIR / u_ior);
+                // Same layout CausticsGenerator writes: where flat-surface light entered to reach this point
+                vec2 causticsUv = u_causticsScale * (v_worldPos.xz - v_worldPos.y * refractedLight.xz / refractedLight.y) / (0.5 * u_poolSize);
                 causticsUv = causticsUv * 0.5 + 0.5;
                 
-                float caustics = texture2D(u_causticsTexture, causticsUv).r;
-                gl_FragColor.rgb += vec3(1.0) * caustics * 0.5;
+                // Alpha holds the sphere's shadow: no caustics behind the ball, and dimmer tiles
+                vec4 caustics = texture2D(u_causticsTexture, causticsUv);
+                gl_FragColor.rgb *= mix(SPHERE_SHADOW_LEVEL, 1.0, caustics.a);
+                gl_FragColor.rgb += caustics.rgb * caustics.a * u_causticsIntensity;
             }
             `
         );
         sceneObjects.current.poolShader = shader;
     };
 
-    const inset = 0.002;
-    const waterVolumeGeo = new THREE.BoxGeometry(poolSize - inset * 2, poolHeight - inset, poolSize - inset * 2);
+    const waterVolumeGeo = createWaterVolumeGeometry(layout);
     const waterVolumeMaterial = new THREE.MeshPhysicalMaterial({
         color: new THREE.Color(waterColorDeep), // Placeholder, updated in useEffect
         metalness: 0.0,
         roughness: 0.1,
         transmission: 1.0, // Fully transparent
         thickness: 0.8,    // Thinner volume for more clarity
-        ior: 1.333,        // Index of Refraction for water
+        ior: opticsConfig.ior, // Index of Refraction, updated in useEffect
         emissive: new THREE.Color(waterColorDeep).multiplyScalar(0.05), // A very subtle glow from within
         depthWrite: false, // Make bubbles visible through volume
     });
-    const waterVolumeMesh = new THREE.Mesh(waterVolumeGeo, [
-        waterVolumeMaterial, // right
-        waterVolumeMaterial, // left
-        new THREE.MeshBasicMaterial({transparent: true, opacity: 0.0, side: THREE.DoubleSide}), // top
-        waterVolumeMaterial, // bottom
-        waterVolumeMaterial, // front
-        waterVolumeMaterial, // back
-    ]);
-    waterVolumeMesh.position.y = -poolHeight / 2;
+    const waterVolumeMesh = new THREE.Mesh(waterVolumeGeo, waterVolumeMaterial); // Open at the top, like the pool
     scene.add(waterVolumeMesh);
 
     const waterMesh = new THREE.Mesh(waterGeo, waterMaterial);
@@ -602,9 +1248,7 @@ const WebGLWater = ({ lightPosition, skyPreset, lightIntensity, specularIntensit
     const bubbles = [];
 
     for (let i = 0; i < bubbleCount; i++) {
-        const x = (Math.random() - 0.5) * (poolSize - 0.1);
-        const y = -poolHeight + Math.random() * poolHeight;
-        const z = (Math.random() - 0.5) * (poolSize - 0.1);
+        const { x, y, z } = randomPointInPool(layout, new THREE.Vector3());
         
         bubbles.push({
             position: new THREE.Vector3(x, y, z),
@@ -632,6 +1276,26 @@ const WebGLWater = ({ lightPosition, skyPreset, lightIntensity, specularIntensit
     const bubbleParticles = new THREE.Points(bubbleParticlesGeo, bubbleMaterial);
     scene.add(bubbleParticles);
 
+    // --- Rain Splash Particles ---
+    // Live droplets are packed at the front of the buffers, and only those are drawn.
+    const splashPositions = new Float32Array(SPLASH_CAPACITY * 3);
+    const splashVelocities = new Float32Array(SPLASH_CAPACITY * 3);
+    let splashCount = 0;
+    const splashGeo = new THREE.BufferGeometry();
+    splashGeo.setAttribute('position', new THREE.BufferAttribute(splashPositions, 3));
+    splashGeo.setDrawRange(0, 0);
+    const splashMaterial = new THREE.PointsMaterial({
+        map: bubbleMaterial.map,
+        size: 0.015,
+        transparent: true,
+        opacity: 0.8,
+        depthWrite: false,
+        sizeAttenuation: true,
+    });
+    const splashParticles = new THREE.Points(splashGeo, splashMaterial);
+    splashParticles.frustumCulled = false; // The bounding sphere would go stale as droplets fly about
+    scene.add(splashParticles);
+
     const sphereRadius = 0.25;
     const sphereMaterial = new THREE.MeshStandardMaterial({ 
       color: 0xffffff, envMap: textureCube, roughness: 0.05, metalness: 0.95 
@@ -644,15 +1308,21 @@ const WebGLWater = ({ lightPosition, skyPreset, lightIntensity, specularIntensit
         shader.uniforms.u_causticsTexture = { value: causticsGenerator.getTexture() };
         shader.uniforms.u_waterTexture = { value: waterSimulation.getTexture() };
         shader.uniforms.u_lightDir = { value: sunPosition };
+        shader.uniforms.u_ior = opticsUniforms.u_ior;
+        shader.uniforms.u_causticsScale = { value: CAUSTICS_MAP_SCALE };
+        shader.uniforms.u_causticsIntensity = opticsUniforms.u_causticsIntensity;
+        shader.uniforms.u_poolSize = poolUniforms.u_poolSize;
     
         shader.vertexShader = `
             varying vec3 v_worldPos;
+            varying vec3 v_worldNormal;
         ` + shader.vertexShader;
         shader.vertexShader = shader.vertexShader.replace(
             '#include <project_vertex>',
             `
             #include <project_vertex>
             v_worldPos = (modelMatrix * vec4(position, 1.0)).xyz;
+            v_worldNormal = mat3(modelMatrix) * objectNormal;
             `
         );
     
@@ -660,9 +1330,14 @@ const WebGLWater = ({ lightPosition, skyPreset, lightIntensity, specularIntensit
             uniform sampler2D u_causticsTexture;
             uniform sampler2D u_waterTexture;
             uniform vec3 u_lightDir;
+            uniform float u_ior;
+            uniform float u_causticsScale;
+            uniform float u_causticsIntensity;
+            uniform vec2 u_poolSize;
             varying vec3 v_worldPos;
+            varying vec3 v_worldNormal;
             const float IOR_AIR = 1.0;
-            const float IOR_WATER = 1.333;
+            const float SPHERE_SHADE_LEVEL = 0.45; // Brightness left on the side facing away from the sun
         ` + shader.fragmentShader;
     
         shader.fragmentShader = shader.fragmentShader.replace(
@@ -670,17 +1345,22 @@ const WebGLWater = ({ lightPosition, skyPreset, lightIntensity, specularIntensit
             `
             #include <dithering_fragment>
             
-            vec2 waterUv = v_worldPos.xz * 0.5 + 0.5;
+            vec2 waterUv = v_worldPos.xz / u_poolSize + 0.5;
             waterUv.y = 1.0 - waterUv.y;
             float waterHeight = texture2D(u_waterTexture, waterUv).r;
     
             if (v_worldPos.y < waterHeight) {
-                vec3 refractedLight = refract(-u_lightDir, vec3(0.0, 1.0, 0.0), IOR_AIR / IOR_WATER);
-                vec2 causticsUv = v_worldPos.xz - v_worldPos.y * refractedLight.xz / refractedLight.y;
+                vec3 refractedLight = refract(-u_lightDir, vec3(0.0, 1.0, 0.0), IOR_AIR / u_ior);
+                // Same layout CausticsGenerator writes: where flat-surface light entered to reach this point
+                vec2 causticsUv = u_causticsScale * (v_worldPos.xz - v_worldPos.y * refractedLight.xz / refractedLight.y) / (0.5 * u_poolSize);
                 causticsUv = causticsUv * 0.5 + 0.5;
                 
-                float caustics = texture2D(u_causticsTexture, causticsUv).r;
-                gl_FragColor.rgb += vec3(1.0) * caustics * 0.5;
+                vec3 caustics = texture2D(u_causticsTexture, causticsUv).rgb;
+                gl_FragColor.rgb += caustics * u_causticsIntensity;
+            } else {
+                // Above the surface the sun leaves the far side of the ball in shade
+                float facing = dot(normalize(v_worldNormal), u_lightDir);
+                gl_FragColor.rgb *= mix(SPHERE_SHADE_LEVEL, 1.0, smoothstep(-0.3, 0.4, facing));
             }
             `
         );
@@ -691,110 +1371,180 @@ const WebGLWater = ({ lightPosition, skyPreset, lightIntensity, specularIntensit
     waterMaterial.uniforms.u_sphereRadius.value = sphereRadius;
     let oldSpherePos = sphere.position.clone();
 
+    // Sphere physics state. dragVelocity tracks the pointer so a release can throw the ball.
+    const sphereVelocity = new THREE.Vector3();
+    const dragVelocity = new THREE.Vector3();
+    const lastDragPosition = new THREE.Vector3();
+    let lastDragTime = 0;
+
+    // Set when the user pokes the water or drags the sphere, so a paused scene still refreshes its normals and caustics.
+    let surfaceDirty = false;
+
     const raycaster = new THREE.Raycaster();
     const pointer = new THREE.Vector2();
-    let isDraggingSphere = false;
+    let spherePointerId: number | null = null; // The pointer dragging the sphere, if any
     const dragPlane = new THREE.Plane();
     const waterPlane = new THREE.Plane(new THREE.Vector3(0, 1, 0), 0);
-    
-    const onPointerDownImpl = (e: PointerEvent) => {
+
+    // Every pointer paints its own stroke, so each finger on a touch screen leaves a separate trail.
+    // `last` is where the stroke last touched water; `down` is false for a hovering mouse.
+    const strokes = new Map<number, { last: THREE.Vector2 | null; down: boolean }>();
+    // Fingers on the screen. Once there are enough for the camera gesture, none of them paint again
+    // until they've all lifted, so a pinch never leaves ripples behind.
+    const touchPointers = new Set<number>();
+    let touchCameraActive = false;
+
+    const aimRaycaster = (e: PointerEvent) => {
       pointer.x = (e.clientX / currentMount.clientWidth) * 2 - 1;
       pointer.y = -(e.clientY / currentMount.clientHeight) * 2 + 1;
       raycaster.setFromCamera(pointer, camera);
+    };
+    const waterUvUnderPointer = () => {
+      const point = new THREE.Vector3();
+      raycaster.ray.intersectPlane(waterPlane, point);
+      return new THREE.Vector2(
+        point.x / pool.current.width + 0.5,
+        0.5 - point.z / pool.current.length
+      );
+    };
+
+    const onPointerDownImpl = (e: PointerEvent) => {
+      const isTouch = e.pointerType === 'touch';
+      aimRaycaster(e);
       const intersects = raycaster.intersectObject(sphere);
-      if (intersects.length > 0) {
-        isDraggingSphere = true;
+      if (spherePointerId === null && !(isTouch && touchCameraActive) && intersects.length > 0) {
+        spherePointerId = e.pointerId;
         controls.enabled = false;
         dragPlane.setFromNormalAndCoplanarPoint(camera.getWorldDirection(new THREE.Vector3()).negate(), intersects[0].point);
-      } else {
-        // Create a single ripple on click
-        const point = new THREE.Vector3();
-        raycaster.ray.intersectPlane(waterPlane, point);
-        const currentUv = new THREE.Vector2(
-          point.x / poolSize + 0.5,
-          0.5 - point.z / poolSize
-        );
-        if (currentUv.x >= 0 && currentUv.x <= 1 && currentUv.y >= 0 && currentUv.y <= 1) {
-            waterSimulation.addDrop(currentUv.x, currentUv.y, 0.03, 0.02);
+        sphereVelocity.set(0, 0, 0);
+        dragVelocity.set(0, 0, 0);
+        lastDragPosition.copy(sphere.position);
+        lastDragTime = performance.now();
+        return;
+      }
+
+      if (isTouch) {
+        touchPointers.add(e.pointerId);
+        if (touchPointers.size >= TOUCH_CAMERA[touchGesture.current].fingers) {
+          touchCameraActive = true;
+          touchPointers.forEach(id => strokes.delete(id));
         }
+        if (touchCameraActive) return;
+      }
+
+      // Create a single ripple on click
+      const currentUv = waterUvUnderPointer();
+      const onWater = isPoolWater(pool.current.mask, currentUv.x, currentUv.y);
+      if (onWater) {
+          const { brushRadius, brushStrength } = brush.current;
+          waterSimulation.addDrops([createBrushDrop(brush.current, pool.current, currentUv.x, currentUv.y, brushRadius, brushStrength, e.altKey)]);
+          surfaceDirty = true;
       }
+      strokes.set(e.pointerId, { last: onWater ? currentUv : null, down: true });
     };
     const onPointerMoveImpl = (e: PointerEvent) => {
-      pointer.x = (e.clientX / currentMount.clientWidth) * 2 - 1;
-      pointer.y = -(e.clientY / currentMount.clientHeight) * 2 + 1;
-      raycaster.setFromCamera(pointer, camera);
+      aimRaycaster(e);
       
-      if (isDraggingSphere) {
+      if (e.pointerId === spherePointerId) {
         const point = new THREE.Vector3();
         raycaster.ray.intersectPlane(dragPlane, point);
+        const previous = sphere.position.clone();
         sphere.position.copy(point);
-        const limit = poolSize / 2 - sphereRadius;
-        sphere.position.x = Math.max(-limit, Math.min(limit, sphere.position.x));
-        sphere.position.z = Math.max(-limit, Math.min(limit, sphere.position.z));
-        sphere.position.y = Math.max(-poolHeight + sphereRadius, Math.min(0.5, sphere.position.y));
+        clampSphereToPool(sphere.position, pool.current, sphereRadius, previous);
+        sphere.position.y = Math.min(0.5, sphere.position.y);
+
+        // Smooth the pointer speed a little so one jittery event doesn't decide the throw.
+        const now = performance.now();
+        const dragSeconds = (now - lastDragTime) / 1000;
+        if (dragSeconds > 0) {
+          const instantVelocity = sphere.position.clone().sub(lastDragPosition).divideScalar(dragSeconds);
+          dragVelocity.lerp(instantVelocity, 0.5);
+          lastDragPosition.copy(sphere.position);
+          lastDragTime = now;
+        }
+        surfaceDirty = true;
         return; // Don't interact with water while dragging sphere
       }
 
+      if (e.pointerType === 'touch' && touchCameraActive) return; // The camera owns every finger
+
+      // A mouse starts a hover stroke just by moving; fingers only get one by touching down.
+      let stroke = strokes.get(e.pointerId);
+      if (!stroke) {
+        if (e.pointerType === 'touch') return;
+        stroke = { last: null, down: false };
+        strokes.set(e.pointerId, stroke);
+      }
+
       // If hovering over sphere, do not create ripples.
       const sphereIntersects = raycaster.intersectObject(sphere);
       if (sphereIntersects.length > 0) {
-        lastWaterInteractionPoint.current = null; // Reset last point to avoid jumping trail
+        stroke.last = null; // Reset last point to avoid jumping trail
         return;
       }
 
-      const isPointerDown = e.buttons === 1;
-
-      const point = new THREE.Vector3();
-      raycaster.ray.intersectPlane(waterPlane, point);
-      const currentUv = new THREE.Vector2(
-        point.x / poolSize + 0.5,
-        0.5 - point.z / poolSize
-      );
+      const currentUv = waterUvUnderPointer();
       
       // Only interact if the cursor is over the water surface
-      if (currentUv.x < 0 || currentUv.x > 1 || currentUv.y < 0 || currentUv.y > 1) {
-        lastWaterInteractionPoint.current = null; // Reset when leaving water area
+      if (!isPoolWater(pool.current.mask, currentUv.x, currentUv.y)) {
+        stroke.last = null; // Reset when leaving water area
         return;
       }
 
-      if (lastWaterInteractionPoint.current) {
-        const lastUv = lastWaterInteractionPoint.current;
+      if (stroke.last) {
+        const lastUv = stroke.last;
         const distance = currentUv.distanceTo(lastUv);
         
         // Make trail strength proportional to mouse speed. Drag is stronger than hover.
-        const baseStrength = isPointerDown ? 0.02 : 0.01;
-        const strengthMultiplier = isPointerDown ? 0.4 : 0.3;
-        const maxStrength = isPointerDown ? 0.05 : 0.03;
-        
-        const strength = Math.min(maxStrength, baseStrength + distance * strengthMultiplier);
-        const radius = 0.02;
+        const { brushRadius, brushStrength } = brush.current;
+        const ramp = stroke.down ? DRAG_TRAIL : HOVER_TRAIL;
+        const strength = brushStrength * Math.min(ramp.max, ramp.base + distance * ramp.perDistance);
+        const radius = brushRadius * TRAIL_RADIUS_SCALE;
+        const heading = currentUv.clone().sub(lastUv);
 
         const segments = Math.max(1, Math.ceil(distance / 0.015));
+        const drops: DropImpulse[] = [];
         for (let i = 0; i < segments; i++) {
           const t = i / segments;
           const uv = lastUv.clone().lerp(currentUv, t);
-          // This check is now redundant but harmless
-          if (uv.x >= 0 && uv.x <= 1 && uv.y >= 0 && uv.y <= 1) {
-            waterSimulation.addDrop(uv.x, uv.y, radius, strength);
+          // A stroke can cut across ground between two parts of a shaped pool
+          if (isPoolWater(pool.current.mask, uv.x, uv.y)) {
+            drops.push(createBrushDrop(brush.current, pool.current, uv.x, uv.y, radius, strength, e.altKey, heading));
           }
         }
+        if (drops.length > 0) {
+          waterSimulation.addDrops(drops);
+          surfaceDirty = true;
+        }
       }
       
-      lastWaterInteractionPoint.current = currentUv;
+      stroke.last = currentUv;
     };
-    const onPointerUpImpl = () => { 
-      isDraggingSphere = false; 
-      controls.enabled = true; 
-      lastWaterInteractionPoint.current = null;
+    // Also handles pointercancel, which is how the browser takes back a finger it wants for itself
+    const onPointerUpImpl = (e: PointerEvent) => { 
+      if (e.pointerId === spherePointerId) {
+        // Carry the drag speed into the simulation, unless the pointer was held still before letting go.
+        const heldStill = performance.now() - lastDragTime > 100;
+        sphereVelocity.copy(heldStill ? new THREE.Vector3() : dragVelocity);
+        spherePointerId = null;
+        controls.enabled = true;
+      }
+      strokes.delete(e.pointerId);
+      if (e.pointerType === 'touch') {
+        touchPointers.delete(e.pointerId);
+        if (touchPointers.size === 0) touchCameraActive = false;
+      }
     };
-    const onPointerLeaveImpl = () => {
-      lastWaterInteractionPoint.current = null;
+    const onPointerLeaveImpl = (e: PointerEvent) => {
+      const stroke = strokes.get(e.pointerId);
+      if (stroke) stroke.last = null;
     };
 
     currentMount.addEventListener('pointerdown', onPointerDownImpl);
     currentMount.addEventListener('pointermove', onPointerMoveImpl);
     currentMount.addEventListener('pointerleave', onPointerLeaveImpl);
     window.addEventListener('pointerup', onPointerUpImpl);
+    window.addEventListener('pointercancel', onPointerUpImpl);
 
     const updateReflector = () => {
         reflectorWorldPosition.setFromMatrixPosition(waterMesh.matrixWorld);
@@ -827,23 +1577,100 @@ const WebGLWater = ({ lightPosition, skyPreset, lightIntensity, specularIntensit
         textureMatrix.multiply(reflector.matrixWorldInverse);
     };
 
-    const clock = new THREE.Clock();
-    const animate = () => {
-      requestAnimationFrame(animate);
-      const time = clock.getElapsedTime();
-      controls.update();
-      
-      const { poolShader, sphereShader } = sceneObjects.current;
+    // Port of the original demo's sphere physics: gravity, buoyancy from the submerged fraction, and quadratic drag.
+    const stepSpherePhysics = (seconds: number) => {
+      const { sphereDensity, sphereDrag } = simConfig.current;
+      const percentUnderWater = Math.max(0, Math.min(1, (sphereRadius - sphere.position.y) / (2 * sphereRadius)));
+
+      // Gravity pulls down; the water pushes back up harder the more of the ball is under.
+      sphereVelocity.addScaledVector(SPHERE_GRAVITY, seconds * (1 - percentUnderWater / sphereDensity));
+
+      // Drag grows with speed squared, but never flips the ball's direction.
+      const slowdown = Math.min(1, percentUnderWater * seconds * sphereVelocity.length() * sphereDrag);
+      sphereVelocity.multiplyScalar(1 - slowdown);
+
+      const previousX = sphere.position.x;
+      const previousZ = sphere.position.z;
+      sphere.position.addScaledVector(sphereVelocity, seconds);
+
+      // Bounce off the floor and walls
+      const { halfWidth, halfLength, mask, width, length } = pool.current;
+      const floor = floorHeightAt(pool.current, sphere.position.x, sphere.position.z) + sphereRadius;
+      if (sphere.position.y < floor) {
+        sphere.position.y = floor;
+        sphereVelocity.y = Math.abs(sphereVelocity.y) * SPHERE_BOUNCE;
+      }
+      const limitX = halfWidth - sphereRadius;
+      if (Math.abs(sphere.position.x) > limitX) {
+        sphere.position.x = Math.sign(sphere.position.x) * limitX;
+        sphereVelocity.x = -sphereVelocity.x * SPHERE_BOUNCE;
+      }
+      const limitZ = halfLength - sphereRadius;
+      if (Math.abs(sphere.position.z) > limitZ) {
+        sphere.position.z = Math.sign(sphere.position.z) * limitZ;
+        sphereVelocity.z = -sphereVelocity.z * SPHERE_BOUNCE;
+      }
+      // Shaped walls: step back out and bounce straight back, which is close enough for a blob of a wall
+      if (!fitsInPool(mask, width, length, sphere.position.x, sphere.position.z, sphereRadius)) {
+        sphere.position.x = previousX;
+        sphere.position.z = previousZ;
+        sphereVelocity.x = -sphereVelocity.x * SPHERE_BOUNCE;
+        sphereVelocity.z = -sphereVelocity.z * SPHERE_BOUNCE;
+      }
+    };
+
+    // Throws a few droplets up and out from where a raindrop hit the surface at (x, z).
+    const spawnSplash = (x: number, z: number, size: number) => {
+      for (let k = 0; k < SPLASH_DROPLETS && splashCount < SPLASH_CAPACITY; k++, splashCount++) {
+        const angle = Math.random() * Math.PI * 2;
+        const spread = (0.15 + Math.random() * 0.25) * size;
+        splashPositions.set([x, 0, z], splashCount * 3);
+        splashVelocities.set([Math.cos(angle) * spread, (0.5 + Math.random() * 0.5) * Math.sqrt(size), Math.sin(angle) * spread], splashCount * 3);
+      }
+    };
+
+    const stepSplashes = (seconds: number) => {
+      for (let i = 0; i < splashCount; i++) {
+        splashVelocities[i * 3 + 1] -= SPLASH_GRAVITY * seconds;
+        for (let axis = 0; axis < 3; axis++) splashPositions[i * 3 + axis] += splashVelocities[i * 3 + axis] * seconds;
+        if (splashPositions[i * 3 + 1] < 0) {
+          // Back in the water: move the last live droplet into this slot
+          splashCount--;
+          splashPositions.copyWithin(i * 3, splashCount * 3, splashCount * 3 + 3);
+          splashVelocities.copyWithin(i * 3, splashCount * 3, splashCount * 3 + 3);
+          i--;
+        }
+      }
+      splashGeo.setDrawRange(0, splashCount);
+      splashGeo.attributes.position.needsUpdate = true;
+    };
 
-      // --- Wind Simulation ---
-      const windStrength = 0.0005;
-      const windWave1_x = Math.sin(time * 0.3 + 2.0) * 0.5 + 0.5;
-      const windWave1_y = Math.cos(time * 0.5 + 1.0) * 0.5 + 0.5;
-      waterSimulation.addDrop(windWave1_x, windWave1_y, 0.05, windStrength);
+    // Drops this step's share of the rain, carrying the fraction over so any rate averages out.
+    let rainDue = 0;
+    const spawnRain = () => {
+      const { rainRate, rainDropRadius, rainDropStrength, rainSizeVariation, rainSplashes } = simConfig.current;
+      rainDue += rainRate * FIXED_TIMESTEP;
+      const count = Math.floor(rainDue);
+      rainDue -= count;
+      const { mask, width, length } = pool.current;
+      const drops: DropImpulse[] = [];
+      for (let i = 0; i < count; i++) {
+        const u = Math.random();
+        const v = Math.random();
+        if (!isPoolWater(mask, u, v)) continue; // Landed on the deck
+        const size = sampleRainDropSize(rainSizeVariation);
+        drops.push({ x: u, y: v, radius: rainDropRadius * size, strength: -rainDropStrength * size });
+        if (rainSplashes) spawnSplash((u - 0.5) * width, (0.5 - v) * length, size);
+      }
+      waterSimulation.addDrops(drops);
+    };
 
-      const windWave2_x = Math.sin(time * 0.2 - 1.0) * 0.5 + 0.5;
-      const windWave2_y = Math.cos(time * 0.4 - 3.0) * 0.5 + 0.5;
-      waterSimulation.addDrop(windWave2_x, windWave2_y, 0.08, -windStrength * 0.7);
+    // Advances wind, rain, bubbles, sphere displacement and the height field by one fixed step.
+    const simulateFrame = (time: number) => {
+      const { windSpeed, windDirection, windGustiness, rain } = simConfig.current;
+      waterSimulation.applyWind(time, windSpeed, windDirection, windGustiness);
+      if (rain) spawnRain();
+      if (splashCount > 0) stepSplashes(FIXED_TIMESTEP);
 
       // Bubble animation
       const positionAttribute = bubbleParticles.geometry.attributes.position as THREE.BufferAttribute;
@@ -853,15 +1680,18 @@ const WebGLWater = ({ lightPosition, skyPreset, lightIntensity, specularIntensit
         bubble.position.x += Math.sin(time * bubble.wobbleSpeed + bubble.wobbleOffset) * 0.001;
 
         if (bubble.position.y > 0) { // Reset when it reaches the surface
-            bubble.position.y = -poolHeight;
-            bubble.position.x = (Math.random() - 0.5) * (poolSize - 0.1);
-            bubble.position.z = (Math.random() - 0.5) * (poolSize - 0.1);
+            randomPointInPool(pool.current, bubble.position);
+            bubble.position.y = floorHeightAt(pool.current, bubble.position.x, bubble.position.z);
         }
 
         positionAttribute.setXYZ(i, bubble.position.x, bubble.position.y, bubble.position.z);
       }
       positionAttribute.needsUpdate = true;
 
+      if (simConfig.current.gravity && spherePointerId === null) {
+        stepSpherePhysics(FIXED_TIMESTEP);
+      }
+
       if (oldSpherePos.distanceTo(sphere.position) > 0.001) {
         waterSimulation.moveSphere(
           new THREE.Vector3(oldSpherePos.x, oldSpherePos.y, -oldSpherePos.z),
@@ -871,9 +1701,73 @@ const WebGLWater = ({ lightPosition, skyPreset, lightIntensity, specularIntensit
         oldSpherePos.copy(sphere.position);
       }
       waterSimulation.step();
-      waterSimulation.updateNormals();
+    };
+
+    // Fades the fog between the open-air haze and the murk below the surface. Only a camera inside
+    // the pool counts as underwater; orbiting beneath the pool from outside keeps the surface look.
+    const underwaterFogColor = new THREE.Color();
+    const updateUnderwaterFog = () => {
+      const { x, y, z } = camera.position;
+      const { waterDepth, mask, width, length } = pool.current;
+      const insidePool = y > floorHeightAt(pool.current, x, z) && isWaterAt(mask, width, length, x, z);
+      const underwater = insidePool ? THREE.MathUtils.smoothstep(-y, -WATERLINE_BLEND, WATERLINE_BLEND) : 0;
+      const depth = THREE.MathUtils.clamp(-y / waterDepth, 0, 1);
+
+      const { u_useCustomColor, u_shallowColor, u_deepColor } = waterMaterial.uniforms;
+      if (u_useCustomColor.value) {
+        underwaterFogColor.copy(u_shallowColor.value).lerp(u_deepColor.value, depth);
+      } else {
+        underwaterFogColor.copy(UNDERWATER_FOG_SHALLOW).lerp(UNDERWATER_FOG_DEEP, depth);
+      }
+      const underwaterFar = THREE.MathUtils.lerp(UNDERWATER_FOG.farShallow, UNDERWATER_FOG.farDeep, depth);
+
+      fog.color.copy(surfaceFogColor).lerp(underwaterFogColor, underwater);
+      fog.near = THREE.MathUtils.lerp(SURFACE_FOG.near, UNDERWATER_FOG.near, underwater);
+      fog.far = THREE.MathUtils.lerp(SURFACE_FOG.far, underwaterFar, underwater);
+
+      waterMaterial.uniforms.u_underwater.value = underwater;
+      waterMaterial.uniforms.u_fogColor.value.copy(underwaterFogColor);
+      waterMaterial.uniforms.u_fogFar.value = underwaterFar;
+    };
+
+    const clock = new THREE.Clock();
+    let simTime = 0; // Scaled simulation clock, frozen while paused
+    let accumulator = 0; // Scaled seconds not yet consumed by fixed solver steps
+    const animate = () => {
+      requestAnimationFrame(animate);
+      // Clamp long gaps (e.g. a background tab) so we don't try to replay them all at once.
+      const delta = Math.min(clock.getDelta(), MAX_FRAME_DELTA);
+      controls.update();
+      
+      const { poolShader, sphereShader } = sceneObjects.current;
+      const { isPaused: paused, timeScale: scale } = playback.current;
+
+      // Work out how many fixed solver steps to run: real time while playing, or queued single steps while paused.
+      let steps = 0;
+      if (!paused) {
+        accumulator += delta * scale;
+        steps = Math.min(Math.floor(accumulator / FIXED_TIMESTEP), MAX_SUBSTEPS);
+        accumulator -= steps * FIXED_TIMESTEP;
+        // Hit the catch-up cap: drop the backlog instead of spiralling further behind.
+        if (steps === MAX_SUBSTEPS) accumulator = Math.min(accumulator, FIXED_TIMESTEP);
+      } else if (playback.current.pendingSteps > 0) {
+        steps = playback.current.pendingSteps;
+        playback.current.pendingSteps = 0;
+      }
+
+      for (let i = 0; i < steps; i++) {
+        simTime += FIXED_TIMESTEP;
+        simulateFrame(simTime);
+      }
+
+      // Like the original demo, keep normals fresh after any change even when the solver is frozen.
+      if (steps > 0 || surfaceDirty) {
+        waterSimulation.updateNormals();
+        surfaceDirty = false;
+      }
       
       const waterTexture = waterSimulation.getTexture();
+      causticsGenerator.setSphere(sphere.position, sphereRadius);
       causticsGenerator.update(renderer, waterTexture, sunPosition);
 
       if (poolShader) {
@@ -903,19 +1797,59 @@ const WebGLWater = ({ lightPosition, skyPreset, lightIntensity, specularIntensit
       waterMaterial.uniforms.u_waterTexture.value = waterTexture;
       waterMaterial.uniforms.u_cameraPos.value.copy(camera.position);
       waterMaterial.uniforms.u_sphereCenter.value.copy(sphere.position);
+      updateUnderwaterFog();
       renderer.render(scene, camera);
     };
     
-    sceneObjects.current = { scene, sky, sunPosition, waterMaterial, sunLight, cubeCamera, renderer, skyScene, waterVolumeMesh, waterVolumeMaterial, bubbles, bubbleParticles, causticsGenerator };
+    sceneObjects.current = { scene, surfaceFogColor, opticsUniforms, poolUniforms, poolMesh, sphere, sky, sunPosition, waterMaterial, sunLight, cubeCamera, renderer, skyScene, waterVolumeMesh, waterVolumeMaterial, bubbles, bubbleParticles, causticsGenerator, waterMesh, controls };
 
     if (sceneApiRef) {
         sceneApiRef.current = {
-            setLightIntensity: (value: number) => {
+            addDrop: (x, z, radius, strength) => {
+                const u = x / pool.current.width + 0.5;
+                const v = 0.5 - z / pool.current.length;
+                if (!isPoolWater(pool.current.mask, u, v)) return;
+                waterSimulation.addDrop(u, v, radius, strength);
+                surfaceDirty = true;
+            },
+            setSpherePosition: (position) => {
+                const previous = sphere.position.clone();
+                sphere.position.set(position.x, position.y, position.z);
+                clampSphereToPool(sphere.position, pool.current, sphereRadius, previous);
+                sphereVelocity.set(0, 0, 0);
+                surfaceDirty = true;
+            },
+            getSpherePosition: () => ({ x: sphere.position.x, y: sphere.position.y, z: sphere.position.z }),
+            resetWater: () => {
+                waterSimulation.reset();
+                surfaceDirty = true;
+            },
+            getCamera: () => ({
+                position: { x: camera.position.x, y: camera.position.y, z: camera.position.z },
+                target: { x: controls.target.x, y: controls.target.y, z: controls.target.z },
+            }),
+            setCamera: ({ position, target }) => {
+                if (position) camera.position.set(position.x, position.y, position.z);
+                if (target) controls.target.set(target.x, target.y, target.z);
+                controls.update();
+            },
+            setPaused: (paused) => {
+                playback.current.isPaused = paused;
+                if (!paused) playback.current.pendingSteps = 0;
+            },
+            stepFrame: () => {
+                playback.current.pendingSteps = Math.min(playback.current.pendingSteps + 1, MAX_SUBSTEPS);
+            },
+            setTimeScale: (value) => {
+                playback.current.timeScale = value;
+            },
+            setLightIntensity: (value) => {
                 if (sunLight) sunLight.intensity = value;
             },
-            setSpecularIntensity: (value: number) => {
+            setSpecularIntensity: (value) => {
                 if (waterMaterial) waterMaterial.uniforms.u_specularIntensity.value = value;
-            }
+            },
+            getStepSize: () => FIXED_TIMESTEP,
         };
     }
     
@@ -926,6 +1860,7 @@ const WebGLWater = ({ lightPosition, skyPreset, lightIntensity, specularIntensit
       currentMount.removeEventListener('pointermove', onPointerMoveImpl);
       currentMount.removeEventListener('pointerleave', onPointerLeaveImpl);
       window.removeEventListener('pointerup', onPointerUpImpl);
+      window.removeEventListener('pointercancel', onPointerUpImpl);
       cancelAnimationFrame(animId);
       if (sceneApiRef) sceneApiRef.current = null;
       waterSimulation.dispose();
@@ -936,6 +1871,89 @@ const WebGLWater = ({ lightPosition, skyPreset, lightIntensity, specularIntensit
     };
   }, [waterSimulation, sceneApiRef]);
 
+  useEffect(() => {
+    playback.current.isPaused = isPaused;
+    if (!isPaused) playback.current.pendingSteps = 0;
+  }, [isPaused]);
+
+  useEffect(() => {
+    playback.current.timeScale = timeScale;
+  }, [timeScale]);
+
+  useEffect(() => {
+    simConfig.current = simulationConfig;
+    waterSimulation.setWaveParams(simulationConfig.waveSpeed, simulationConfig.damping, simulationConfig.boundaryMode);
+  }, [simulationConfig, waterSimulation]);
+
+  useEffect(() => {
+    brush.current = brushConfig;
+  }, [brushConfig]);
+
+  useEffect(() => {
+    touchGesture.current = touchCameraGesture;
+    const { controls } = sceneObjects.current;
+    if (!controls) return;
+    controls.touches = { ...TOUCH_CAMERA[touchCameraGesture].touches };
+  }, [touchCameraGesture]);
+
+  useEffect(() => {
+    const { gridResolution } = simulationConfig;
+    const { poolWidth, poolLength } = poolConfig;
+    waterSimulation.setPoolSize(poolWidth, poolLength);
+    const resized = waterSimulation.resize(getGridSize(gridResolution, poolWidth, poolLength));
+    const { waterMesh, causticsGenerator } = sceneObjects.current;
+    if (!waterMesh) return;
+    const { width, height } = waterMesh.geometry.parameters;
+    if (!resized && width === poolWidth && height === poolLength) return;
+    // Only the normals need recomputing; heights were resampled into the new grid.
+    waterSimulation.updateNormals();
+
+    const newGeo = createWaterGeometry(gridResolution, poolWidth, poolLength);
+    waterMesh.geometry.dispose();
+    waterMesh.geometry = newGeo;
+    causticsGenerator.setGeometry(newGeo);
+  }, [simulationConfig.gridResolution, poolConfig.poolWidth, poolConfig.poolLength, waterSimulation]);
+
+  useEffect(() => {
+    const layout = getPoolLayout(poolConfig, poolMask, floorMap);
+    pool.current = layout;
+    const { poolUniforms, poolMesh, waterVolumeMesh, causticsGenerator, bubbles, sphere } = sceneObjects.current;
+    if (!poolUniforms) return;
+
+    poolUniforms.u_poolSize.value.set(layout.width, layout.length);
+    poolUniforms.u_poolDepth.value = layout.waterDepth;
+    poolUniforms.u_rimHeight.value = layout.rimHeight;
+    poolUniforms.u_poolMask.value = layout.mask.texture;
+    poolUniforms.u_floorMap.value = layout.floor.texture;
+    poolUniforms.u_floorRelief.value = layout.floorRelief;
+    waterSimulation.setMask(layout.mask);
+    waterSimulation.setFloor(layout.floor.texture, layout.floorRelief);
+    causticsGenerator.setPool(layout.width, layout.length, layout.waterDepth);
+    causticsGenerator.setFloor(layout.floor.texture, layout.floorRelief);
+
+    poolMesh.geometry.dispose();
+    poolMesh.geometry = createPoolShellGeometry(layout);
+    waterVolumeMesh.geometry.dispose();
+    waterVolumeMesh.geometry = createWaterVolumeGeometry(layout);
+
+    // Nothing may be left outside the new walls
+    bubbles.forEach((bubble: { position: THREE.Vector3 }) => randomPointInPool(layout, bubble.position));
+    clampSphereToPool(sphere.position, layout, sphere.geometry.parameters.radius);
+  }, [poolConfig, poolMask, floorMap, waterSimulation]);
+
+  useEffect(() => {
+    const { opticsUniforms, waterVolumeMaterial, causticsGenerator } = sceneObjects.current;
+    if (!opticsUniforms) return;
+    opticsUniforms.u_ior.value = opticsConfig.ior;
+    opticsUniforms.u_fresnelStrength.value = opticsConfig.fresnelStrength;
+    opticsUniforms.u_causticsIntensity.value = opticsConfig.causticsIntensity;
+    waterVolumeMaterial.ior = opticsConfig.ior;
+    causticsGenerator.setIor(opticsConfig.ior);
+    causticsGenerator.setResolution(opticsConfig.causticsResolution);
+    causticsGenerator.setBlur(opticsConfig.causticsBlur);
+    causticsGenerator.setDispersion(opticsConfig.causticsDispersion ? opticsConfig.dispersionAmount : 0);
+  }, [opticsConfig]);
+
   useEffect(() => {
     const { sky, sunPosition, waterMaterial, sunLight } = sceneObjects.current;
     if (!sky) return;
@@ -960,7 +1978,7 @@ const WebGLWater = ({ lightPosition, skyPreset, lightIntensity, specularIntensit
   }, [specularIntensity]);
   
   useEffect(() => {
-    const { scene, waterMaterial, waterVolumeMaterial } = sceneObjects.current;
+    const { surfaceFogColor, waterMaterial, waterVolumeMaterial } = sceneObjects.current;
     if (!waterMaterial || !waterVolumeMaterial) return;
 
     const deepColor = new THREE.Color(waterColorDeep);
@@ -968,23 +1986,31 @@ const WebGLWater = ({ lightPosition, skyPreset, lightIntensity, specularIntensit
     waterMaterial.uniforms.u_useCustomColor.value = useCustomWaterColor;
     waterMaterial.uniforms.u_shallowColor.value.set(waterColorShallow);
     waterMaterial.uniforms.u_deepColor.value.set(deepColor);
+
+    const absorbed = useCustomWaterColor
+      ? { shallow: waterMaterial.uniforms.u_shallowColor.value, deep: deepColor }
+      : { shallow: new THREE.Color(DEFAULT_SCENE_CONFIG.waterColorShallow), deep: new THREE.Color(DEFAULT_SCENE_CONFIG.waterColorDeep) };
+    absorptionFromColor(absorbed.shallow, waterMaterial.uniforms.u_absorption.value);
+    waterMaterial.uniforms.u_scatterColor.value.copy(absorbed.deep);
     
     // Make the volume and fog lighter for a clearer, more tropical feel
     const volumeColor = deepColor.clone().lerp(new THREE.Color(waterColorShallow), 0.2);
     waterVolumeMaterial.color.copy(volumeColor);
     waterVolumeMaterial.emissive.copy(volumeColor).multiplyScalar(0.05);
     
-    if (scene && scene.fog) {
-        scene.fog.color.copy(volumeColor);
-    }
+    // The animation loop blends this toward the underwater fog when the camera dips below the surface
+    surfaceFogColor.copy(volumeColor);
   }, [useCustomWaterColor, waterColorShallow, waterColorDeep]);
 
   useEffect(() => {
     const { sky, sunLight, waterMaterial, cubeCamera, renderer, skyScene } = sceneObjects.current;
     if (!sky) return;
 
-    const preset = skyPresets[skyPreset as keyof typeof skyPresets] || skyPresets.default;
-    const isNight = skyPreset === 'night';
+    // Rain brings its own overcast while it falls; night is dark enough already and stays as it is.
+    const activePreset = simulationConfig.rain && skyPreset !== 'night' ? 'rainy' : skyPreset;
+    const preset = skyPresets[activePreset as keyof typeof skyPresets] || skyPresets.default;
+    const isNight = activePreset === 'night';
+    const isRainy = activePreset === 'rainy';
     
     sky.material.uniforms['turbidity'].value = preset.turbidity;
     sky.material.uniforms['rayleigh'].value = preset.rayleigh;
@@ -994,6 +2020,8 @@ const WebGLWater = ({ lightPosition, skyPreset, lightIntensity, specularIntensit
     if (isNight) {
       sunLight.color.set(0x88aaff);
       // In night mode, light intensity is already scaled down, so we use the real-time value here.
+    } else if (isRainy) {
+      sunLight.color.set(0x8a949e); // Dull grey daylight through the overcast
     } else {
       sunLight.color.set(0xffffff);
     }
@@ -1007,7 +2035,7 @@ const WebGLWater = ({ lightPosition, skyPreset, lightIntensity, specularIntensit
     if (renderer && skyScene) {
         cubeCamera.update(renderer, skyScene);
     }
-  }, [skyPreset, lightIntensity]);
+  }, [skyPreset, simulationConfig.rain, lightIntensity]);
 
 
   return <div ref={mountRef} style={{ width: '100%', height: '100%', position: 'absolute', top: 0, left: 0 }} />;
@@ -4,9 +4,14 @@
  */
 import React from 'react';
 import MetaPrototype from '../App/MetaPrototype.tsx';
+import { WaterSceneApi } from '../../types/index.tsx';
 
-const Welcome = () => {
-  return <MetaPrototype />;
+interface WelcomeProps {
+  apiRef?: React.MutableRefObject<WaterSceneApi | null>;
+}
+
+const Welcome = ({ apiRef }: WelcomeProps) => {
+  return <MetaPrototype apiRef={apiRef} />;
 };
 
 export default Welcome;
@@ -17,6 +17,7 @@ const DOCK_ITEMS = [
   { id: 'control' as WindowId, icon: 'ph-sliders', label: 'Control' },
   { id: 'code' as WindowId, icon: 'ph-code', label: 'Code' },
   { id: 'console' as WindowId, icon: 'ph-terminal-window', label: 'Console' },
+  { id: 'presets' as WindowId, icon: 'ph-bookmarks-simple', label: 'Presets' },
 ];
 
 const Dock: React.FC<DockProps> = ({ windows, toggleWindow }) => {
@@ -4,6 +4,7 @@
  */
 import React from 'react';
 import WebGLWater from '../Package/WebGLWater.tsx';
+import { SimulationConfig, OpticsConfig, PoolConfig, BrushConfig, TouchCameraGesture, WaterSceneApi } from '../../types/index.tsx';
 
 interface StageProps {
   lightPosition: { x: number; y: number; z: number };
@@ -13,7 +14,16 @@ interface StageProps {
   useCustomWaterColor: boolean;
   waterColorShallow: string;
   waterColorDeep: string;
-  sceneApiRef: React.RefObject<any>;
+  isPaused: boolean;
+  timeScale: number;
+  simulationConfig: SimulationConfig;
+  opticsConfig: OpticsConfig;
+  poolConfig: PoolConfig;
+  brushConfig: BrushConfig;
+  touchCameraGesture: TouchCameraGesture;
+  customPoolMask: string | null;
+  customFloorMap: string | null;
+  sceneApiRef: React.MutableRefObject<WaterSceneApi | null>;
 }
 
 const Stage = ({ 
@@ -24,6 +34,15 @@ const Stage = ({
     useCustomWaterColor,
     waterColorShallow,
     waterColorDeep,
+    isPaused,
+    timeScale,
+    simulationConfig,
+    opticsConfig,
+    poolConfig,
+    brushConfig,
+    touchCameraGesture,
+    customPoolMask,
+    customFloorMap,
     sceneApiRef,
 }: StageProps) => {
   return (
@@ -40,6 +59,15 @@ const Stage = ({
             useCustomWaterColor={useCustomWaterColor}
             waterColorShallow={waterColorShallow}
             waterColorDeep={waterColorDeep}
+            isPaused={isPaused}
+            timeScale={timeScale}
+            simulationConfig={simulationConfig}
+            opticsConfig={opticsConfig}
+            poolConfig={poolConfig}
+            brushConfig={brushConfig}
+            touchCameraGesture={touchCameraGesture}
+            customPoolMask={customPoolMask}
+            customFloorMap={customFloorMap}
             sceneApiRef={sceneApiRef}
         />
     </div>
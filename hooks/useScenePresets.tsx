@@ -0,0 +1,161 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { useState, useEffect } from 'react';
+import { SceneConfig, ScenePreset } from '../types/index.tsx';
+import { SCENE_CONFIG_VERSION, resolveSceneConfig } from '../utils/sceneConfig.tsx';
+
+const STORAGE_KEY = 'webgl-water.presets';
+
+// What we write to localStorage and to exported files.
+interface PresetFile {
+  version: number;
+  presets: { id?: string; name?: string; createdAt?: string; config?: unknown }[];
+}
+
+export interface PresetImportResult {
+  imported: number;
+  warnings: string[];
+}
+
+const createId = () => Math.random().toString(36).substr(2, 9);
+
+// Keeps names unique by adding " (2)", " (3)", ... when needed.
+const uniqueName = (name: string, taken: ScenePreset[], ignoreId?: string) => {
+  const names = new Set(taken.filter(p => p.id !== ignoreId).map(p => p.name));
+  if (!names.has(name)) return name;
+  let n = 2;
+  while (names.has(`${name} (${n})`)) n++;
+  return `${name} (${n})`;
+};
+
+// Reads presets out of a saved file or storage blob, upgrading old configs on the way.
+const readPresetFile = (data: unknown): { presets: ScenePreset[]; warnings: string[] } => {
+  const warnings: string[] = [];
+  if (typeof data !== 'object' || data === null) {
+    return { presets: [], warnings: ['File is not a preset collection'] };
+  }
+
+  // Accept a full collection, a single preset, or a bare config pasted from the Code panel.
+  const file = data as Partial<PresetFile> & { name?: string; config?: unknown };
+  const version = typeof file.version === 'number' ? file.version : 0;
+  const entries = Array.isArray(file.presets)
+    ? file.presets
+    : [file.config !== undefined ? file : { name: 'Imported Preset', config: data }];
+
+  // Entries without a real config are skipped rather than turned into a preset of all defaults.
+  const presets: ScenePreset[] = [];
+  entries.forEach((entry, i) => {
+    const name = typeof entry?.name === 'string' && entry.name.trim() ? entry.name.trim() : `Imported Preset ${i + 1}`;
+    const raw = entry?.config;
+    if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+      warnings.push(`${name}: skipped, it has no scene config object`);
+      return;
+    }
+    const { config, issues, recognizedFields } = resolveSceneConfig(raw, version);
+    if (recognizedFields === 0) {
+      warnings.push(`${name}: skipped, none of its fields are scene settings`);
+      return;
+    }
+    issues.forEach(issue => warnings.push(`${name}: ${issue.message}`));
+    presets.push({
+      id: typeof entry?.id === 'string' ? entry.id : createId(),
+      name,
+      createdAt: typeof entry?.createdAt === 'string' ? entry.createdAt : new Date().toISOString(),
+      config,
+    });
+  });
+  return { presets, warnings };
+};
+
+const loadStoredPresets = (): ScenePreset[] => {
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    return raw ? readPresetFile(JSON.parse(raw)).presets : [];
+  } catch (err) {
+    console.warn('Failed to read saved presets', err);
+    return [];
+  }
+};
+
+const toPresetFile = (presets: ScenePreset[]): PresetFile => ({ version: SCENE_CONFIG_VERSION, presets });
+
+const downloadJson = (data: unknown, fileName: string) => {
+  const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  // Firefox only follows links that are in the document, and some browsers start the download
+  // after click() returns, so the URL is revoked on a later tick.
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+/**
+ * 💾 Scene Presets Hook
+ * Named snapshots of the scene config, saved in localStorage.
+ * Everything is stored with a config version so older saves can be upgraded when fields change.
+ */
+export const useScenePresets = () => {
+  const [presets, setPresets] = useState<ScenePreset[]>(loadStoredPresets);
+
+  useEffect(() => {
+    try {
+      window.localStorage.setItem(STORAGE_KEY, JSON.stringify(toPresetFile(presets)));
+    } catch (err) {
+      console.warn('Failed to save presets', err);
+    }
+  }, [presets]);
+
+  const savePreset = (name: string, config: SceneConfig) => {
+    const preset: ScenePreset = {
+      id: createId(),
+      name: uniqueName(name.trim() || 'Untitled Preset', presets),
+      createdAt: new Date().toISOString(),
+      config,
+    };
+    setPresets(prev => [...prev, preset]);
+    return preset;
+  };
+
+  const renamePreset = (id: string, name: string) => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    setPresets(prev => prev.map(p => (p.id === id ? { ...p, name: uniqueName(trimmed, prev, id) } : p)));
+  };
+
+  const deletePreset = (id: string) => {
+    setPresets(prev => prev.filter(p => p.id !== id));
+  };
+
+  const exportPresets = (ids?: string[]) => {
+    const chosen = ids ? presets.filter(p => ids.includes(p.id)) : presets;
+    const fileName = chosen.length === 1 ? `${chosen[0].name.replace(/[^\w-]+/g, '_')}.json` : 'water-presets.json';
+    downloadJson(toPresetFile(chosen), fileName);
+  };
+
+  const importPresets = async (file: File): Promise<PresetImportResult> => {
+    let data: unknown;
+    try {
+      data = JSON.parse(await file.text());
+    } catch (err) {
+      return { imported: 0, warnings: [`${file.name} is not valid JSON`] };
+    }
+    const { presets: incoming, warnings } = readPresetFile(data);
+    setPresets(prev => {
+      const next = [...prev];
+      incoming.forEach(preset => {
+        // Always give imports fresh ids so they never overwrite what's already saved.
+        next.push({ ...preset, id: createId(), name: uniqueName(preset.name, next) });
+      });
+      return next;
+    });
+    return { imported: incoming.length, warnings };
+  };
+
+  return { presets, savePreset, renamePreset, deletePreset, exportPresets, importPresets };
+};
@@ -7,16 +7,31 @@ import ReactDOM from 'react-dom/client';
 import { ThemeProvider, useTheme } from './Theme.tsx';
 import { BreakpointProvider } from './hooks/useBreakpoint.tsx';
 import Welcome from './components/Page/Welcome.tsx';
+import { WaterSceneApi } from './types/index.tsx';
+
+declare global {
+  interface Window {
+    /** The typed scene handle for scripts on the page, or null until the scene has mounted. */
+    waterScene?: WaterSceneApi | null;
+  }
+}
 
 function App() {
   const { theme } = useTheme();
+  const sceneApiRef = React.useRef<WaterSceneApi | null>(null);
 
   React.useEffect(() => {
     document.body.style.backgroundColor = theme.Color.Base.Surface[1];
   }, [theme]);
 
+  // Expose the handle as window.waterScene. A getter, so it always returns the live one.
+  React.useEffect(() => {
+    Object.defineProperty(window, 'waterScene', { configurable: true, get: () => sceneApiRef.current });
+    return () => { delete window.waterScene; };
+  }, []);
+
   return (
-      <Welcome />
+      <Welcome apiRef={sceneApiRef} />
   );
 }
 
@@ -4,7 +4,7 @@
  */
 
 // --- Window Management ---
-export type WindowId = 'control' | 'code' | 'console';
+export type WindowId = 'control' | 'code' | 'console' | 'presets';
 
 export interface WindowState {
   id: WindowId;
@@ -21,3 +21,156 @@ export interface LogEntry {
   timestamp: string;
   message: string;
 }
+
+
+// --- Simulation ---
+export type BoundaryMode = 'reflective' | 'absorbing' | 'periodic';
+export type GridResolution = 64 | 128 | 256 | 512;
+
+export interface SimulationConfig {
+  gravity: boolean; // Sphere falls, floats and bobs instead of staying where it was dropped
+  sphereDensity: number; // Relative to water: below 1 floats, above 1 sinks
+  sphereDrag: number; // How strongly the water slows the sphere down
+  waveSpeed: number; // How fast ripples spread (the solver is only stable up to 2)
+  damping: number; // Fraction of wave energy kept each step
+  boundaryMode: BoundaryMode; // What happens to waves at the pool edges
+  gridResolution: GridResolution; // Cells per side of the height field
+  windSpeed: number; // How hard the wind blows across the surface; 0 is calm
+  windDirection: number; // Heading the wind blows toward, in degrees: 0 is +X, 90 is +Z
+  windGustiness: number; // 0 is a steady wind, 1 comes and goes in strong patches
+  rain: boolean; // Raindrops land on the surface at random
+  rainRate: number; // Drops per second over the whole pool
+  rainDropRadius: number; // Typical drop radius, in world units
+  rainDropStrength: number; // Typical dent a drop leaves in the surface
+  rainSizeVariation: number; // 0 makes every drop the typical one, 1 mixes fine drizzle with big drops
+  rainSplashes: boolean; // Droplets spring up where the rain lands
+}
+
+// --- Optics ---
+export type CausticsResolution = 256 | 512 | 1024 | 2048;
+
+export interface OpticsConfig {
+  ior: number; // Index of refraction of the liquid (water is 1.333)
+  fresnelStrength: number; // Scales the physically based reflectance; 1 is physically correct
+  causticsResolution: CausticsResolution; // Texels per side of the caustics map
+  causticsBlur: number; // Blur radius in texels; 0 turns the blur pass off
+  causticsIntensity: number; // How bright caustics are on the pool and sphere
+  causticsDispersion: boolean; // Refract red, green and blue separately for rainbow fringes
+  dispersionAmount: number; // IOR difference between neighbouring color channels
+}
+
+// --- Pool ---
+// 'custom' uses the mask image uploaded in the Control panel; without one it falls back to a rectangle.
+export type PoolShape = 'rectangle' | 'round' | 'kidney' | 'lShape' | 'custom';
+// Floor heightmap: 'ramp' rises evenly toward the far end, 'beach' stays deep then shelves up to a shallow end.
+// 'custom' uses the uploaded grayscale image (brighter is shallower); without one the floor is flat.
+export type FloorShape = 'flat' | 'ramp' | 'beach' | 'custom';
+
+export interface PoolConfig {
+  poolShape: PoolShape; // Outline, stretched to fit the width and length
+  poolWidth: number; // World units along X
+  poolLength: number; // World units along Z
+  poolDepth: number; // Floor to rim, in world units
+  fillLevel: number; // Fraction of the depth filled with water; 1 is full to the rim
+  floorShape: FloorShape;
+  floorRelief: number; // How far the brightest parts of the floor rise, as a fraction of the water depth
+}
+
+// --- Brush ---
+// How clicking and dragging on the water disturbs it. A tool setting, so it stays out of the scene config.
+export type BrushShape = 'round' | 'gaussian' | 'ring' | 'line';
+export type BrushPolarity = 'pull' | 'push'; // Pull raises the water under the brush, push presses it down
+
+export interface BrushConfig {
+  brushShape: BrushShape; // 'line' lies along the stroke (across the pool's width for a single click)
+  brushRadius: number; // World units; trails while dragging use a slightly smaller brush
+  brushStrength: number; // Height a click adds; drags ramp up from here with pointer speed
+  brushPolarity: BrushPolarity; // Holding Alt flips it for as long as it's held
+  brushFalloff: number; // 0 tapers gently from the center, 0.5 is the classic drop, 1 is nearly flat with a hard edge
+}
+
+// Which touch gesture moves the camera. Fingers that aren't part of it paint, each with its own stroke.
+// 'two-finger' pinches to zoom and drags to orbit, 'one-finger' orbits with any touch (so touches never
+// paint) and 'none' locks the camera so every finger paints.
+export type TouchCameraGesture = 'two-finger' | 'one-finger' | 'none';
+
+// --- Keyboard Shortcuts ---
+export interface KeyboardShortcut {
+  key: string; // Matched against KeyboardEvent.key, lowercased
+  label: string; // How the "?" overlay shows the keys
+  description: string;
+  withModifier?: boolean; // Needs Ctrl (Cmd on a Mac)
+  shift?: boolean; // Must (true) or mustn't (false) be held; left out, Shift doesn't matter
+  repeat?: boolean; // Keeps firing while the key is held down
+  run: (isRepeat: boolean) => void;
+}
+
+// --- Scene Config ---
+// Everything the Code panel serializes. Simulation, optics and pool fields sit at the top level next to the look-and-feel ones.
+export interface SceneConfig extends SimulationConfig, OpticsConfig, PoolConfig {
+  isPaused: boolean;
+  timeScale: number;
+  lightPosition: Vec3;
+  skyPreset: string;
+  lightIntensity: number;
+  specularIntensity: number;
+  useCustomWaterColor: boolean;
+  waterColorShallow: string;
+  waterColorDeep: string;
+}
+
+// A named, saved look. Stored in localStorage and exported as .json files.
+export interface ScenePreset {
+  id: string;
+  name: string;
+  createdAt: string; // ISO date
+  config: SceneConfig;
+}
+
+// One undo step: the whole scene config as it was just before a change.
+export interface HistoryEntry {
+  id: string;
+  label: string; // What changed, e.g. "Light intensity"
+  timestamp: string; // For display
+  time: number; // Milliseconds, used to merge rapid edits into one step
+  config: SceneConfig;
+}
+
+// A problem found while reading scene config text, pointing at where it is in the text (1-based).
+export interface ConfigIssue {
+  message: string;
+  line: number;
+  column: number;
+}
+
+// --- Scene API ---
+export interface Vec3 {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface CameraState {
+  position: Vec3;
+  target: Vec3; // The point the orbit camera looks at
+}
+
+/**
+ * Imperative handle for driving the water scene from code.
+ * Positions and drop radii are in world units: the pool is centered on the origin (sized by `PoolConfig`),
+ * and the resting surface is at y = 0.
+ */
+export interface WaterSceneApi {
+  addDrop: (x: number, z: number, radius: number, strength: number) => void;
+  setSpherePosition: (position: Vec3) => void;
+  getSpherePosition: () => Vec3;
+  resetWater: () => void;
+  getCamera: () => CameraState;
+  setCamera: (camera: Partial<CameraState>) => void;
+  setPaused: (paused: boolean) => void;
+  stepFrame: () => void;
+  setTimeScale: (scale: number) => void;
+  setLightIntensity: (intensity: number) => void;
+  setSpecularIntensity: (intensity: number) => void;
+  getStepSize: () => number;
+}
\ No newline at end of file
@@ -0,0 +1,289 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { SceneConfig, OpticsConfig, PoolConfig, BrushConfig, ConfigIssue } from '../types/index.tsx';
+
+/**
+ * 📐 Scene Config Schema
+ * Describes every field the Code panel understands, and checks pasted or typed JSON against it.
+ * Ranges match the Control panel sliders, so anything that passes can also be shown there.
+ */
+
+// Bump this whenever a saved field is renamed or reshaped, and add a matching entry to MIGRATIONS.
+export const SCENE_CONFIG_VERSION = 1;
+
+export const DEFAULT_SCENE_CONFIG: SceneConfig = {
+  isPaused: false,
+  timeScale: 1.0,
+  lightPosition: { x: 2, y: 3, z: -2 },
+  skyPreset: 'default',
+  lightIntensity: 2.0,
+  specularIntensity: 2.0,
+  useCustomWaterColor: false,
+  waterColorShallow: '#aaddff', // Light cyan
+  waterColorDeep: '#005577', // Dark cyan
+  gravity: true,
+  sphereDensity: 0.9,
+  sphereDrag: 1.0,
+  waveSpeed: 2.0,
+  damping: 0.995,
+  boundaryMode: 'reflective',
+  gridResolution: 128,
+  windSpeed: 2,
+  windDirection: 45,
+  windGustiness: 0.5,
+  rain: false,
+  rainRate: 80,
+  rainDropRadius: 0.03,
+  rainDropStrength: 0.01,
+  rainSizeVariation: 0.5,
+  rainSplashes: true,
+  ior: 1.333,
+  fresnelStrength: 1.0,
+  causticsResolution: 512,
+  causticsBlur: 1,
+  causticsIntensity: 0.5,
+  causticsDispersion: false,
+  dispersionAmount: 0.02,
+  poolShape: 'rectangle',
+  poolWidth: 2,
+  poolLength: 2,
+  poolDepth: 1,
+  fillLevel: 1,
+  floorShape: 'flat',
+  floorRelief: 0.8,
+};
+
+// The brush isn't part of the scene (links, presets and undo leave it alone), but its defaults live here with the rest.
+export const DEFAULT_BRUSH_CONFIG: BrushConfig = {
+  brushShape: 'round',
+  brushRadius: 0.06,
+  brushStrength: 0.02,
+  brushPolarity: 'pull',
+  brushFalloff: 0.5,
+};
+
+type FieldRule =
+  | { kind: 'number'; min: number; max: number }
+  | { kind: 'boolean' }
+  | { kind: 'enum'; values: readonly (string | number)[] }
+  | { kind: 'color' }
+  | { kind: 'vec3'; min: number; max: number };
+
+export const SCENE_CONFIG_SCHEMA: Record<keyof SceneConfig, FieldRule> = {
+  isPaused: { kind: 'boolean' },
+  timeScale: { kind: 'number', min: 0.1, max: 4 },
+  lightPosition: { kind: 'vec3', min: -10, max: 10 },
+  skyPreset: { kind: 'enum', values: ['default', 'sunset', 'cloudy', 'rainy', 'night'] },
+  lightIntensity: { kind: 'number', min: 0, max: 10 },
+  specularIntensity: { kind: 'number', min: 0, max: 10 },
+  useCustomWaterColor: { kind: 'boolean' },
+  waterColorShallow: { kind: 'color' },
+  waterColorDeep: { kind: 'color' },
+  gravity: { kind: 'boolean' },
+  sphereDensity: { kind: 'number', min: 0.1, max: 2 },
+  sphereDrag: { kind: 'number', min: 0, max: 5 },
+  waveSpeed: { kind: 'number', min: 0.1, max: 2 },
+  damping: { kind: 'number', min: 0.9, max: 1 },
+  boundaryMode: { kind: 'enum', values: ['reflective', 'absorbing', 'periodic'] },
+  gridResolution: { kind: 'enum', values: [64, 128, 256, 512] },
+  windSpeed: { kind: 'number', min: 0, max: 10 },
+  windDirection: { kind: 'number', min: 0, max: 360 },
+  windGustiness: { kind: 'number', min: 0, max: 1 },
+  rain: { kind: 'boolean' },
+  rainRate: { kind: 'number', min: 1, max: 400 },
+  rainDropRadius: { kind: 'number', min: 0.01, max: 0.08 },
+  rainDropStrength: { kind: 'number', min: 0.002, max: 0.05 },
+  rainSizeVariation: { kind: 'number', min: 0, max: 1 },
+  rainSplashes: { kind: 'boolean' },
+  ior: { kind: 'number', min: 1, max: 2.5 },
+  fresnelStrength: { kind: 'number', min: 0, max: 2 },
+  causticsResolution: { kind: 'enum', values: [256, 512, 1024, 2048] },
+  causticsBlur: { kind: 'number', min: 0, max: 4 },
+  causticsIntensity: { kind: 'number', min: 0, max: 2 },
+  causticsDispersion: { kind: 'boolean' },
+  dispersionAmount: { kind: 'number', min: 0, max: 0.1 },
+  poolShape: { kind: 'enum', values: ['rectangle', 'round', 'kidney', 'lShape', 'custom'] },
+  poolWidth: { kind: 'number', min: 1, max: 4 },
+  poolLength: { kind: 'number', min: 1, max: 4 },
+  poolDepth: { kind: 'number', min: 0.5, max: 2 },
+  fillLevel: { kind: 'number', min: 0.2, max: 1 },
+  floorShape: { kind: 'enum', values: ['flat', 'ramp', 'beach', 'custom'] },
+  floorRelief: { kind: 'number', min: 0, max: 0.9 },
+};
+
+// The fields WebGLWater takes grouped as `opticsConfig` and `poolConfig` props. Every field must be listed (TypeScript checks this).
+const OPTICS_FIELDS: Record<keyof OpticsConfig, true> = {
+  ior: true,
+  fresnelStrength: true,
+  causticsResolution: true,
+  causticsBlur: true,
+  causticsIntensity: true,
+  causticsDispersion: true,
+  dispersionAmount: true,
+};
+
+const POOL_FIELDS: Record<keyof PoolConfig, true> = {
+  poolShape: true,
+  poolWidth: true,
+  poolLength: true,
+  poolDepth: true,
+  fillLevel: true,
+  floorShape: true,
+  floorRelief: true,
+};
+
+// Moves the listed fields that are present in `rest` over to a new object.
+const takeFields = <T extends object>(rest: Partial<SceneConfig>, fields: Record<keyof T, true>) => {
+  const taken: Partial<T> = {};
+  (Object.keys(fields) as (keyof T & keyof SceneConfig)[]).forEach(key => {
+    if (!(key in rest)) return;
+    Object.assign(taken, { [key]: rest[key] });
+    delete rest[key];
+  });
+  return taken;
+};
+
+/** Separates the optics and pool fields of a (partial) scene config from everything else. */
+export const splitSceneConfig = (config: Partial<SceneConfig>) => {
+  const rest: Partial<SceneConfig> = { ...config };
+  const optics = takeFields<OpticsConfig>(rest, OPTICS_FIELDS);
+  const pool = takeFields<PoolConfig>(rest, POOL_FIELDS);
+  return { optics, pool, rest };
+};
+
+const HEX_COLOR = /^#[0-9a-fA-F]{6}$/;
+
+// Turns a character offset into a 1-based line and column.
+const locate = (text: string, offset: number) => {
+  const before = text.slice(0, Math.max(0, offset));
+  const lines = before.split('\n');
+  return { line: lines.length, column: lines[lines.length - 1].length + 1 };
+};
+
+// Finds where a (possibly nested) key is written, so schema errors can point at it.
+const locateKey = (text: string, path: string[]) => {
+  let offset = 0;
+  for (const key of path) {
+    const found = text.indexOf(`"${key}"`, offset);
+    if (found === -1) break;
+    offset = found;
+  }
+  return locate(text, offset);
+};
+
+// JSON.parse errors differ by browser: Chrome reports a character position, Firefox a line and column.
+const locateParseError = (text: string, message: string) => {
+  const lineCol = message.match(/line (\d+) column (\d+)/);
+  if (lineCol) return { line: Number(lineCol[1]), column: Number(lineCol[2]) };
+  const position = message.match(/position (\d+)/);
+  if (position) return locate(text, Number(position[1]));
+  return locate(text, text.length);
+};
+
+const checkField = (rule: FieldRule, value: unknown): string | null => {
+  switch (rule.kind) {
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) return 'must be a number';
+      if (value < rule.min || value > rule.max) return `must be between ${rule.min} and ${rule.max}`;
+      return null;
+    case 'boolean':
+      return typeof value === 'boolean' ? null : 'must be true or false';
+    case 'enum':
+      return rule.values.includes(value as string | number) ? null : `must be one of ${rule.values.map(v => JSON.stringify(v)).join(', ')}`;
+    case 'color':
+      return typeof value === 'string' && HEX_COLOR.test(value) ? null : 'must be a hex color like "#aaddff"';
+    case 'vec3': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) return 'must be an object with x, y and z';
+      for (const axis of ['x', 'y', 'z']) {
+        const v = (value as Record<string, unknown>)[axis];
+        if (typeof v !== 'number' || !Number.isFinite(v)) return `${axis} must be a number`;
+        if (v < rule.min || v > rule.max) return `${axis} must be between ${rule.min} and ${rule.max}`;
+      }
+      return null;
+    }
+  }
+};
+
+export interface SceneConfigParseResult {
+  config: Partial<SceneConfig>; // Only the fields that passed
+  issues: ConfigIssue[];
+}
+
+/**
+ * Validates an already-parsed value against the schema.
+ * Good fields are kept even when others fail, so one typo doesn't block the rest.
+ * Pass the source text to get line/column positions for each issue.
+ */
+export const validateSceneConfig = (value: unknown, text = ''): SceneConfigParseResult => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return { config: {}, issues: [{ message: 'Scene config must be a JSON object', line: 1, column: 1 }] };
+  }
+
+  const config: Record<string, unknown> = {};
+  const issues: ConfigIssue[] = [];
+  for (const [key, fieldValue] of Object.entries(value)) {
+    const rule = SCENE_CONFIG_SCHEMA[key as keyof SceneConfig];
+    if (!rule) {
+      issues.push({ message: `Unknown field "${key}"`, ...locateKey(text, [key]) });
+      continue;
+    }
+    const problem = checkField(rule, fieldValue);
+    if (problem) {
+      issues.push({ message: `"${key}" ${problem}`, ...locateKey(text, [key]) });
+      continue;
+    }
+    config[key] = rule.kind === 'vec3' ? { ...(fieldValue as object) } : fieldValue;
+  }
+  return { config: config as Partial<SceneConfig>, issues };
+};
+
+/** Parses scene config JSON text, reporting syntax and schema problems with line and column. */
+export const parseSceneConfig = (text: string): SceneConfigParseResult => {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return { config: {}, issues: [{ message: `Invalid JSON: ${message}`, ...locateParseError(text, message) }] };
+  }
+  return validateSceneConfig(value, text);
+};
+
+// Each entry upgrades a raw config from version N to N + 1.
+const MIGRATIONS: Record<number, (raw: Record<string, unknown>) => Record<string, unknown>> = {
+  // Unversioned configs (copied straight out of the Code panel) already have the v1 shape.
+  0: (raw) => raw,
+};
+
+export interface ResolvedSceneConfig {
+  config: SceneConfig;
+  issues: ConfigIssue[];
+  recognizedFields: number; // How many of the (migrated) fields are scene settings at all, valid or not
+}
+
+/**
+ * Brings saved config data from any version up to date and fills missing fields from `base`.
+ * Fields that fail the schema are dropped (and reported) so an old or hand-edited file still loads.
+ */
+export const resolveSceneConfig = (raw: unknown, version = 0, base: SceneConfig = DEFAULT_SCENE_CONFIG): ResolvedSceneConfig => {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return { config: base, issues: [{ message: 'Scene config must be a JSON object', line: 1, column: 1 }], recognizedFields: 0 };
+  }
+
+  const issues: ConfigIssue[] = [];
+  if (version > SCENE_CONFIG_VERSION) {
+    issues.push({ message: `Saved with a newer config version (${version}); some fields may be ignored`, line: 1, column: 1 });
+  }
+
+  let migrated = raw as Record<string, unknown>;
+  for (let v = Math.max(0, version); v < SCENE_CONFIG_VERSION; v++) {
+    const step = MIGRATIONS[v];
+    if (step) migrated = step(migrated);
+  }
+
+  const validated = validateSceneConfig(migrated);
+  const recognizedFields = Object.keys(migrated).filter(key => key in SCENE_CONFIG_SCHEMA).length;
+  return { config: { ...base, ...validated.config }, issues: [...issues, ...validated.issues], recognizedFields };
+};
@@ -0,0 +1,142 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { SceneConfig } from '../types/index.tsx';
+import { SCENE_CONFIG_SCHEMA, SCENE_CONFIG_VERSION, DEFAULT_SCENE_CONFIG, resolveSceneConfig } from './sceneConfig.tsx';
+
+/**
+ * 🔗 Scene Hash
+ * Packs the scene config into the URL hash so a link reproduces the exact look.
+ * The format is short keys and plain values, e.g. `#v=1&sk=sunset&lp=2,3,-2&li=2.5`.
+ * Only fields that differ from `DEFAULT_SCENE_CONFIG` are written; the decoder fills the rest back in.
+ */
+
+// Short names keep links readable. Every config field must have one (TypeScript checks this).
+const HASH_KEYS: Record<keyof SceneConfig, string> = {
+  isPaused: 'p',
+  timeScale: 'ts',
+  lightPosition: 'lp',
+  skyPreset: 'sk',
+  lightIntensity: 'li',
+  specularIntensity: 'si',
+  useCustomWaterColor: 'cc',
+  waterColorShallow: 'ws',
+  waterColorDeep: 'wd',
+  gravity: 'g',
+  sphereDensity: 'sd',
+  sphereDrag: 'dr',
+  waveSpeed: 'wv',
+  damping: 'dm',
+  boundaryMode: 'bm',
+  gridResolution: 'gr',
+  windSpeed: 'wi',
+  windDirection: 'wh',
+  windGustiness: 'wg',
+  rain: 'rn',
+  rainRate: 'rr',
+  rainDropRadius: 'rd',
+  rainDropStrength: 'rs',
+  rainSizeVariation: 'rv',
+  rainSplashes: 'rp',
+  ior: 'ior',
+  fresnelStrength: 'fs',
+  causticsResolution: 'cr',
+  causticsBlur: 'cb',
+  causticsIntensity: 'ci',
+  causticsDispersion: 'cd',
+  dispersionAmount: 'da',
+  poolShape: 'ps',
+  poolWidth: 'pw',
+  poolLength: 'pl',
+  poolDepth: 'pd',
+  fillLevel: 'fl',
+  floorShape: 'fh',
+  floorRelief: 'fr',
+};
+
+const VERSION_KEY = 'v';
+
+// Trims float noise like 0.30000000000000004 so links stay short.
+const formatNumber = (n: number) => String(Math.round(n * 10000) / 10000);
+
+const encodeValue = (key: keyof SceneConfig, value: unknown): string => {
+  const rule = SCENE_CONFIG_SCHEMA[key];
+  switch (rule.kind) {
+    case 'boolean': return value ? '1' : '0';
+    case 'number': return formatNumber(value as number);
+    case 'color': return String(value).replace('#', '');
+    case 'vec3': {
+      const v = value as SceneConfig['lightPosition'];
+      return [v.x, v.y, v.z].map(formatNumber).join(',');
+    }
+    case 'enum': return String(value);
+  }
+};
+
+// Turns a hash string back into typed values. Anything odd is passed through so the schema can report it.
+const decodeValue = (key: keyof SceneConfig, text: string): unknown => {
+  const rule = SCENE_CONFIG_SCHEMA[key];
+  switch (rule.kind) {
+    case 'boolean': return text === '1' ? true : text === '0' ? false : text;
+    case 'number': return text.trim() === '' ? text : Number(text);
+    case 'color': return `#${text}`;
+    case 'vec3': {
+      const [x, y, z] = text.split(',').map(Number);
+      return { x, y, z };
+    }
+    case 'enum': return typeof rule.values[0] === 'number' ? Number(text) : text;
+  }
+};
+
+export const encodeSceneHash = (config: SceneConfig): string => {
+  const params = new URLSearchParams();
+  params.set(VERSION_KEY, String(SCENE_CONFIG_VERSION));
+  (Object.keys(HASH_KEYS) as (keyof SceneConfig)[]).forEach(key => {
+    // Compared as encoded text, so float noise below the link's precision still counts as the default.
+    const value = encodeValue(key, config[key]);
+    if (value !== encodeValue(key, DEFAULT_SCENE_CONFIG[key])) params.set(HASH_KEYS[key], value);
+  });
+  // URLSearchParams escapes commas; they're safe in a hash and much easier to read unescaped.
+  return `#${params.toString().replace(/%2C/g, ',')}`;
+};
+
+export interface SceneHashResult {
+  config: SceneConfig;
+  found: boolean; // False when there was no hash to read
+  warnings: string[];
+}
+
+/**
+ * Reads a scene config from a location hash.
+ * Missing fields take the defaults. Unknown or broken values fall back to them too, with a warning for each.
+ */
+export const decodeSceneHash = (hash: string, base: SceneConfig = DEFAULT_SCENE_CONFIG): SceneHashResult => {
+  const text = hash.replace(/^#/, '');
+  if (!text) return { config: base, found: false, warnings: [] };
+
+  const params = new URLSearchParams(text);
+  const versionText = params.get(VERSION_KEY);
+  const version = Number(versionText);
+  if (versionText === null || !Number.isInteger(version) || version < 0) {
+    return { config: base, found: true, warnings: ['URL hash has no valid version; using defaults'] };
+  }
+
+  const codeToKey = new Map(Object.entries(HASH_KEYS).map(([key, code]) => [code, key as keyof SceneConfig]));
+  const raw: Record<string, unknown> = {};
+  const warnings: string[] = [];
+  params.forEach((value, code) => {
+    if (code === VERSION_KEY) return;
+    const key = codeToKey.get(code);
+    if (!key) {
+      warnings.push(`URL hash has unknown key "${code}"`);
+      return;
+    }
+    raw[key] = decodeValue(key, value);
+  });
+
+  const { config, issues } = resolveSceneConfig(raw, version, base);
+  issues.forEach(issue => warnings.push(`URL hash: ${issue.message}`));
+  if (issues.length > 0) warnings.push('Invalid URL hash values were replaced with defaults');
+  return { config, found: true, warnings };
+};